@@ -1,6 +1,8 @@
 package com.googleauth
 
+import android.accounts.Account
 import android.app.Activity
+import android.content.Intent
 import android.content.SharedPreferences
 import android.util.Log
 import androidx.lifecycle.Lifecycle
@@ -24,15 +26,27 @@ import com.google.android.libraries.identity.googleid.GetGoogleIdOption
 import com.google.android.libraries.identity.googleid.GetSignInWithGoogleOption
 import com.google.android.libraries.identity.googleid.GoogleIdTokenCredential
 import com.google.android.libraries.identity.googleid.GoogleIdTokenParsingException
+import com.google.android.gms.auth.api.identity.AuthorizationRequest
+import com.google.android.gms.auth.api.identity.AuthorizationResult
+import com.google.android.gms.auth.api.identity.Identity
 import com.google.android.gms.common.ConnectionResult
 import com.google.android.gms.common.GoogleApiAvailability
+import com.google.android.gms.common.api.Scope
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.delay
 import kotlinx.coroutines.launch
+import kotlinx.coroutines.suspendCancellableCoroutine
 import kotlinx.coroutines.withContext
+import org.json.JSONArray
 import org.json.JSONObject
 import android.util.Base64
+import java.io.IOException
+import java.net.HttpURLConnection
+import java.net.URL
+import java.net.URLEncoder
+import kotlin.coroutines.resume
+import kotlin.coroutines.resumeWithException
 
 @ReactModule(name = GoogleAuthModule.NAME)
 class GoogleAuthModule(reactContext: ReactApplicationContext) :
@@ -44,6 +58,8 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
   private var hostedDomain: String? = null
   private var configuredScopes: List<String>? = null
   private var credentialManagerMode: String = "auto" // 'silent', 'interactive', or 'auto'
+  private var offlineAccess = false
+  private var forceCodeForRefreshToken = false
   private var isConfigured = false
   private val coroutineScope = CoroutineScope(Dispatchers.Main)
   
@@ -75,16 +91,48 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
   private var cachedAccessToken: String? = null
   private var cachedUserInfo: WritableMap? = null
   private var tokenExpiresAt: Long? = null
+  private var grantedScopes: MutableSet<String> = DEFAULT_SCOPES.toMutableSet()
+  // Server auth codes are single-use, so only the most recent one is kept in memory
+  private var lastServerAuthCode: String? = null
+
+  // Pending authorization waiting for the consent screen result
+  // Receives (null, null) when the user cancels
+  private var pendingAuthorizationCallback: ((AuthorizationResult?, Exception?) -> Unit)? = null
+
+  private val activityEventListener = object : BaseActivityEventListener() {
+    override fun onActivityResult(activity: Activity, requestCode: Int, resultCode: Int, data: Intent?) {
+      if (requestCode != REQUEST_CODE_AUTHORIZE) {
+        return
+      }
+      val callback = pendingAuthorizationCallback ?: return
+      pendingAuthorizationCallback = null
+
+      if (resultCode != Activity.RESULT_OK || data == null) {
+        Log.d(NAME, "Authorization consent was cancelled")
+        callback(null, null)
+        return
+      }
+
+      try {
+        callback(Identity.getAuthorizationClient(activity).getAuthorizationResultFromIntent(data), null)
+      } catch (e: Exception) {
+        Log.e(NAME, "Failed to read authorization result: " + (e.localizedMessage ?: "Unknown error"))
+        callback(null, e)
+      }
+    }
+  }
   
   init {
     // Register lifecycle observer to handle app state changes on main thread
     reactApplicationContext.runOnUiQueueThread {
       ProcessLifecycleOwner.get().lifecycle.addObserver(this)
     }
+    reactApplicationContext.addActivityEventListener(activityEventListener)
   }
   
   override fun onCatalystInstanceDestroy() {
     super.onCatalystInstanceDestroy()
+    reactApplicationContext.removeActivityEventListener(activityEventListener)
     // Remove lifecycle observer to prevent memory leaks
     try {
       ProcessLifecycleOwner.get().lifecycle.removeObserver(this)
@@ -124,6 +172,10 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
       androidClientId = params.getString("androidClientId")
       hostedDomain = params.getString("hostedDomain")
 
+      // Offline access returns a server auth code after sign-in
+      offlineAccess = params.hasKey("offlineAccess") && params.getBoolean("offlineAccess")
+      forceCodeForRefreshToken = params.hasKey("forceCodeForRefreshToken") && params.getBoolean("forceCodeForRefreshToken")
+
       // Extract credential manager mode (default to "auto" if not specified)
       credentialManagerMode = params.getString("credentialManagerMode") ?: "auto"
 
@@ -185,12 +237,31 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
 
   // MARK: - Sign-in Methods
 
-  override fun signIn(promise: Promise) {
+  override fun signIn(options: ReadableMap?, promise: Promise) {
     if (!isConfigured) {
       promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before signing in")
       return
     }
 
+    // Optional nonce embedded in the ID token for replay protection
+    val nonce = if (options?.hasKey("nonce") == true) options.getString("nonce") else null
+    // Per-call overrides; JS merges them over the configuration
+    val forceAccountPicker = options?.hasKey("forceAccountPicker") == true && options.getBoolean("forceAccountPicker")
+    val mode = when {
+      forceAccountPicker -> "interactive"
+      options?.hasKey("mode") == true -> options.getString("mode") ?: credentialManagerMode
+      else -> credentialManagerMode
+    }
+    val hostedDomainFilter = if (options?.hasKey("hostedDomain") == true) options.getString("hostedDomain") else hostedDomain
+    val extraScopes = (if (options?.hasKey("scopes") == true) options.getArray("scopes") else null)?.let { array ->
+      (0 until array.size()).mapNotNull { array.getString(it) }.filter { isValidScopeFormat(it) }
+    } ?: emptyList()
+
+    if (mode !in listOf("silent", "interactive", "auto")) {
+      promise.reject("INVALID_CONFIG", "mode must be 'silent', 'interactive', or 'auto'")
+      return
+    }
+
     coroutineScope.launch {
       try {
         val activity = getValidActivity()
@@ -199,45 +270,39 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
           return@launch
         }
 
-        when (credentialManagerMode) {
+        val signInResult = when (mode) {
           "silent" -> {
             // Silent mode only - no fallback to interactive
             try {
-              val silentResult = performSilentSignIn(activity)
-              withContext(Dispatchers.Main) {
-                promise.resolve(silentResult)
-              }
+              performSilentSignIn(activity, nonce)
             } catch (e: Exception) {
               Log.e("GoogleAuth", "Silent sign-in failed: " + (e.localizedMessage ?: "Unknown error"))
               withContext(Dispatchers.Main) {
                 promise.reject("SIGN_IN_ERROR", "Silent sign-in failed. No saved credentials found or user not previously authorized: " + (e.localizedMessage ?: "Unknown error"), e)
               }
+              return@launch
             }
           }
           "interactive" -> {
             // Interactive mode only - always show account picker
-            val interactiveResult = performInteractiveSignIn(activity)
-            withContext(Dispatchers.Main) {
-              promise.resolve(interactiveResult)
-            }
+            performInteractiveSignIn(activity, nonce, hostedDomainFilter)
           }
           else -> {
             // Auto mode (default) - try silent first, fallback to interactive
             try {
-              val silentResult = performSilentSignIn(activity)
-              withContext(Dispatchers.Main) {
-                promise.resolve(silentResult)
-              }
+              performSilentSignIn(activity, nonce)
             } catch (e: Exception) {
               Log.d("GoogleAuth", "Silent sign-in failed, trying interactive: " + (e.localizedMessage ?: "Unknown error"))
               // If silent fails, try interactive
-              val interactiveResult = performInteractiveSignIn(activity)
-              withContext(Dispatchers.Main) {
-                promise.resolve(interactiveResult)
-              }
+              performInteractiveSignIn(activity, nonce, hostedDomainFilter)
             }
           }
         }
+
+        val response = attachAuthorizationDetails(activity, signInResult, extraScopes)
+        withContext(Dispatchers.Main) {
+          promise.resolve(response)
+        }
       } catch (e: Exception) {
         Log.e("GoogleAuth", "Sign in failed: " + (e.localizedMessage ?: "Unknown error"))
         withContext(Dispatchers.Main) {
@@ -247,9 +312,58 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  // Restores the stored session without Credential Manager, which always shows UI.
+  // Tokens are returned as stored, even if expired; refreshTokens renews them.
+  override fun signInSilently(promise: Promise) {
+    if (!isConfigured) {
+      promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before signing in")
+      return
+    }
+
+    synchronized(credentialLock) {
+      if (cachedIdToken == null) {
+        loadCredentialsSecurely()
+      }
+
+      val idToken = cachedIdToken
+      if (idToken == null || cachedUserInfo == null) {
+        promise.resolve(Arguments.createMap().apply { putString("type", "noSavedCredentialFound") })
+        return
+      }
+
+      val scopesArray = Arguments.createArray()
+      grantedScopes.forEach { scopesArray.pushString(it) }
+      val data = Arguments.createMap().apply {
+        putString("idToken", idToken)
+        putString("accessToken", cachedAccessToken)
+        putNull("serverAuthCode")
+        putArray("scopes", scopesArray)
+        putMap("user", copyUserInfo(cachedUserInfo))
+      }
+      promise.resolve(Arguments.createMap().apply {
+        putString("type", "success")
+        putMap("data", data)
+      })
+    }
+  }
+
+  override fun hasPreviousSignIn(promise: Promise) {
+    synchronized(credentialLock) {
+      promise.resolve(cachedIdToken != null || loadCredentialsSecurely())
+    }
+  }
+
   // MARK: - Sign-out
 
-  override fun signOut(promise: Promise) {
+  override fun signOut(options: ReadableMap?, promise: Promise) {
+    // Signing out a single account keeps the others and the Credential Manager state
+    val userId = if (options?.hasKey("userId") == true) options.getString("userId") else null
+    if (userId != null) {
+      signOutAccount(userId)
+      promise.resolve(null)
+      return
+    }
+
     coroutineScope.launch {
       try {
         // Clear cached tokens and user info
@@ -258,28 +372,13 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
           cachedAccessToken = null
           cachedUserInfo = null
           tokenExpiresAt = null
+          lastServerAuthCode = null
         }
         
-        // Clear secure storage
-        clearCredentialsSecurely()
+        // Clear secure storage, including every stored account
+        clearCredentialsSecurely(keepAccounts = false)
         
-        // Clear credential state from Credential Manager
-        // This includes clearing any restore credentials and cached credentials
-        credentialManager?.let { manager ->
-          withContext(Dispatchers.IO) {
-            try {
-              val clearRequest = ClearCredentialStateRequest()
-              manager.clearCredentialState(clearRequest)
-              Log.d("GoogleAuth", "Credential state cleared successfully")
-            } catch (e: ClearCredentialStateException) {
-              Log.w("GoogleAuth", "Failed to clear credential state: " + (e.message ?: "Unknown error"))
-              // Continue with sign-out even if clearing fails
-            } catch (e: Exception) {
-              Log.w("GoogleAuth", "Unexpected error clearing credential state: " + (e.localizedMessage ?: "Unknown error"))
-              // Continue with sign-out even if clearing fails
-            }
-          }
-        }
+        clearCredentialManagerState()
         
         withContext(Dispatchers.Main) {
           promise.resolve(null)
@@ -293,9 +392,78 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  // Clears restore credentials and cached credentials from Credential Manager
+  private suspend fun clearCredentialManagerState() {
+    credentialManager?.let { manager ->
+      withContext(Dispatchers.IO) {
+        try {
+          val clearRequest = ClearCredentialStateRequest()
+          manager.clearCredentialState(clearRequest)
+          Log.d("GoogleAuth", "Credential state cleared successfully")
+        } catch (e: ClearCredentialStateException) {
+          Log.w("GoogleAuth", "Failed to clear credential state: " + (e.message ?: "Unknown error"))
+          // Continue with sign-out even if clearing fails
+        } catch (e: Exception) {
+          Log.w("GoogleAuth", "Unexpected error clearing credential state: " + (e.localizedMessage ?: "Unknown error"))
+          // Continue with sign-out even if clearing fails
+        }
+      }
+    }
+  }
+
+  // MARK: - Revoke Access
+
+  override fun revokeAccess(promise: Promise) {
+    if (!isConfigured) {
+      promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before revoking access")
+      return
+    }
+
+    val userId: String?
+    val email: String?
+    synchronized(credentialLock) {
+      userId = activeUserId()
+      email = cachedUserInfo?.let { if (it.hasKey("email")) it.getString("email") else null }
+    }
+    if (userId == null) {
+      promise.reject("NOT_SIGNED_IN", "No user is currently signed in")
+      return
+    }
+
+    val activity = getValidActivity()
+    if (activity == null) {
+      promise.reject("NO_ACTIVITY", "No valid activity available. Please ensure the app is in the foreground.")
+      return
+    }
+
+    coroutineScope.launch {
+      try {
+        // Credential Manager has no revoke call, so revoke a fresh access token for the grant
+        val accessToken = requestAccessTokenSilently(activity, email)
+        val status = if (accessToken == null) {
+          // Google requires consent again, so the app no longer holds a grant
+          "alreadyRevoked"
+        } else {
+          withContext(Dispatchers.IO) { postTokenRevocation(accessToken) }
+        }
+
+        signOutAccount(userId)
+        clearCredentialManagerState()
+
+        promise.resolve(Arguments.createMap().apply { putString("status", status) })
+      } catch (e: IOException) {
+        Log.e(NAME, "Revoke access failed: " + (e.localizedMessage ?: "Unknown error"), e)
+        promise.reject("NETWORK_ERROR", "Revoke access failed: " + (e.localizedMessage ?: "Unknown error"), e)
+      } catch (e: Exception) {
+        Log.e(NAME, "Revoke access failed: " + (e.localizedMessage ?: "Unknown error"), e)
+        promise.reject("REVOKE_ERROR", "Revoke access failed: " + (e.localizedMessage ?: "Unknown error"), e)
+      }
+    }
+  }
+
   // MARK: - Token Management
 
-  override fun getTokens(promise: Promise) {
+  override fun getTokens(userId: String?, promise: Promise) {
     if (!isConfigured) {
       promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before getting tokens")
       return
@@ -307,19 +475,16 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
         loadCredentialsSecurely()
       }
 
+      // Inactive accounts only have the tokens stored at their last sign-in
+      if (userId != null && userId != activeUserId()) {
+        resolveStoredAccountTokens(userId, promise)
+        return
+      }
+
       // Return cached tokens if available
       if (cachedIdToken != null && cachedUserInfo != null) {
         // Create a fresh copy of user info to avoid "map already consumed" error
-        val freshUserInfo = Arguments.createMap().apply {
-          cachedUserInfo?.let { cached ->
-            putString("id", cached.getString("id"))
-            putString("name", cached.getString("name"))
-            putString("email", cached.getString("email"))
-            putString("photo", cached.getString("photo"))
-            putString("familyName", cached.getString("familyName"))
-            putString("givenName", cached.getString("givenName"))
-          }
-        }
+        val freshUserInfo = copyUserInfo(cachedUserInfo)
         
         val response = Arguments.createMap().apply {
           putString("idToken", cachedIdToken)
@@ -344,16 +509,7 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
         if (result.getString("type") == "success") {
           // Use cached tokens since performSilentSignIn would have updated them
           // Create a fresh copy of user info to avoid "map already consumed" error
-          val freshUserInfo = Arguments.createMap().apply {
-            cachedUserInfo?.let { cached ->
-              putString("id", cached.getString("id"))
-              putString("name", cached.getString("name"))
-              putString("email", cached.getString("email"))
-              putString("photo", cached.getString("photo"))
-              putString("familyName", cached.getString("familyName"))
-              putString("givenName", cached.getString("givenName"))
-            }
-          }
+          val freshUserInfo = copyUserInfo(cachedUserInfo)
           
           val response = Arguments.createMap().apply {
             putString("idToken", cachedIdToken)
@@ -390,16 +546,7 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
         val result = performSilentSignIn(activity)
         if (result.getString("type") == "success") {
           // Create a fresh copy of user info to avoid "map already consumed" error
-          val freshUserInfo = Arguments.createMap().apply {
-            cachedUserInfo?.let { cached ->
-              putString("id", cached.getString("id"))
-              putString("name", cached.getString("name"))
-              putString("email", cached.getString("email"))
-              putString("photo", cached.getString("photo"))
-              putString("familyName", cached.getString("familyName"))
-              putString("givenName", cached.getString("givenName"))
-            }
-          }
+          val freshUserInfo = copyUserInfo(cachedUserInfo)
           
           val response = Arguments.createMap().apply {
             putString("idToken", cachedIdToken)
@@ -432,6 +579,71 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  // MARK: - Incremental Authorization
+
+  override fun addScopes(scopes: ReadableArray, promise: Promise) {
+    if (!isConfigured) {
+      promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before adding scopes")
+      return
+    }
+
+    val userId = synchronized(credentialLock) { activeUserId() }
+    if (userId == null) {
+      promise.reject("NOT_SIGNED_IN", "No user is currently signed in")
+      return
+    }
+
+    val activity = getValidActivity()
+    if (activity == null) {
+      promise.reject("NO_ACTIVITY", "No valid activity available. Please ensure the app is in the foreground.")
+      return
+    }
+
+    if (pendingAuthorizationCallback != null) {
+      promise.reject("IN_PROGRESS", "An authorization request is already in progress")
+      return
+    }
+
+    val requestedScopes = (0 until scopes.size()).mapNotNull { scopes.getString(it) }
+    val request = AuthorizationRequest.builder()
+      .setRequestedScopes(requestedScopes.map { Scope(it) })
+      .build()
+
+    authorize(activity, request) { result, error ->
+      when {
+        error != null -> {
+          Log.e(NAME, "Authorization request failed: " + (error.localizedMessage ?: "Unknown error"))
+          promise.reject("ADD_SCOPES_ERROR", "Failed to add scopes: " + (error.localizedMessage ?: "Unknown error"), error)
+        }
+        result != null -> {
+          recordAuthorizationResult(result)
+          promise.resolve(createAddScopesResponse(result.accessToken))
+        }
+        // Cancelled: nothing new was granted, so report the current scopes
+        else -> promise.resolve(createAddScopesResponse(null))
+      }
+    }
+  }
+
+  override fun getGrantedScopes(promise: Promise) {
+    synchronized(credentialLock) {
+      if (cachedIdToken == null) {
+        loadCredentialsSecurely()
+      }
+      val response = Arguments.createArray()
+      if (cachedIdToken != null) {
+        grantedScopes.forEach { response.pushString(it) }
+      }
+      promise.resolve(response)
+    }
+  }
+
+  override fun getServerAuthCode(promise: Promise) {
+    synchronized(credentialLock) {
+      promise.resolve(lastServerAuthCode)
+    }
+  }
+
   override fun getCurrentUser(promise: Promise) {
     synchronized(credentialLock) {
       // Try to load from cache first, then from secure storage
@@ -441,16 +653,7 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
       
       if (cachedUserInfo != null) {
         // Create a fresh copy of user info
-        val freshUserInfo = Arguments.createMap().apply {
-          cachedUserInfo?.let { cached ->
-            putString("id", cached.getString("id"))
-            putString("name", cached.getString("name"))
-            putString("email", cached.getString("email"))
-            putString("photo", cached.getString("photo"))
-            putString("familyName", cached.getString("familyName"))
-            putString("givenName", cached.getString("givenName"))
-          }
-        }
+        val freshUserInfo = copyUserInfo(cachedUserInfo)
         promise.resolve(freshUserInfo)
       } else {
         promise.resolve(null)
@@ -458,6 +661,48 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  // MARK: - Multiple Accounts
+
+  override fun getAccounts(promise: Promise) {
+    synchronized(credentialLock) {
+      val accounts = readAccounts()
+      val response = Arguments.createArray()
+      accounts.keys().forEach { userId ->
+        accounts.optJSONObject(userId)?.optJSONObject("user")?.let { response.pushMap(userInfoFromJson(it)) }
+      }
+      promise.resolve(response)
+    }
+  }
+
+  override fun switchAccount(userId: String, promise: Promise) {
+    if (!isConfigured) {
+      promise.reject("NOT_CONFIGURED", "GoogleAuth must be configured before switching accounts")
+      return
+    }
+
+    synchronized(credentialLock) {
+      val account = readAccounts().optJSONObject(userId)
+      val user = account?.optJSONObject("user")
+      if (account == null || user == null) {
+        promise.reject("ACCOUNT_NOT_FOUND", "No signed-in account with userId $userId")
+        return
+      }
+
+      cachedIdToken = account.optStringOrNull("idToken")
+      cachedAccessToken = account.optStringOrNull("accessToken")
+      tokenExpiresAt = account.optLong("expiresAt", 0).takeIf { it > 0 }
+      grantedScopes = account.optJSONArray("scopes")?.let { scopes ->
+        (0 until scopes.length()).map { scopes.getString(it) }.toMutableSet()
+      } ?: DEFAULT_SCOPES.toMutableSet()
+      cachedUserInfo = userInfoFromJson(user)
+      // Server auth codes belong to the sign-in that issued them
+      lastServerAuthCode = null
+      saveCredentialsSecurely(cachedIdToken, cachedAccessToken, cachedUserInfo, tokenExpiresAt)
+
+      promise.resolve(userInfoFromJson(user))
+    }
+  }
+
   override fun checkPlayServices(showErrorDialog: Boolean?, promise: Promise) {
     try {
       val googleApiAvailability = GoogleApiAvailability.getInstance()
@@ -593,8 +838,8 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
   }
   
   private fun isValidScopeFormat(scope: String): Boolean {
-    // Validate OAuth scope format
-    return scope.matches(Regex("^https://www\\.googleapis\\.com/auth/[a-zA-Z0-9._-]+$")) ||
+    // Validate OAuth scope format; some Google scopes live on google.com, e.g. https://mail.google.com/
+    return scope.matches(Regex("^https://([a-zA-Z0-9-]+\\.)*(googleapis|google)\\.com/[\\w./-]*$")) ||
            scope in listOf("openid", "email", "profile")
   }
   
@@ -709,15 +954,18 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     throw Exception("$operationName failed after $maxRetries retries")
   }
 
-  private suspend fun performSilentSignIn(activity: Activity): WritableMap {
+  private suspend fun performSilentSignIn(activity: Activity, nonce: String? = null): WritableMap {
     return withContext(Dispatchers.IO) {
       try {
         executeWithRetry(maxRetries = 2, operationName = "silent sign-in") {
           val clientId = getClientId() ?: throw IllegalStateException("No client ID available")
-          val googleIdOption = GetGoogleIdOption.Builder()
+          val googleIdOptionBuilder = GetGoogleIdOption.Builder()
             .setServerClientId(clientId)
             .setFilterByAuthorizedAccounts(true) // Only show accounts that have previously signed in
-            .build()
+
+          nonce?.let { googleIdOptionBuilder.setNonce(it) }
+
+          val googleIdOption = googleIdOptionBuilder.build()
 
           val request = GetCredentialRequest.Builder()
             .addCredentialOption(googleIdOption)
@@ -738,7 +986,7 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
-  private suspend fun performInteractiveSignIn(activity: Activity): WritableMap {
+  private suspend fun performInteractiveSignIn(activity: Activity, nonce: String? = null, hostedDomainFilter: String? = hostedDomain): WritableMap {
     return withContext(Dispatchers.IO) {
       try {
         executeWithRetry(maxRetries = 1, operationName = "interactive sign-in") {
@@ -746,10 +994,13 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
           
           val signInWithGoogleOptionBuilder = GetSignInWithGoogleOption.Builder(clientId)
           
-          // Add hosted domain if configured
-          hostedDomain?.let { domain ->
+          // Add hosted domain if configured or requested for this sign-in
+          hostedDomainFilter?.let { domain ->
             signInWithGoogleOptionBuilder.setHostedDomainFilter(domain)
           }
+
+          // Add nonce if provided
+          nonce?.let { signInWithGoogleOptionBuilder.setNonce(it) }
           
           // Note: GetSignInWithGoogleOption.Builder does not support setting scopes directly
           // Scopes are handled through the Google ID token and OAuth flow
@@ -804,6 +1055,8 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
       GoogleIdTokenCredential.TYPE_GOOGLE_ID_TOKEN_CREDENTIAL -> {
         try {
           val googleIdTokenCredential = GoogleIdTokenCredential.createFrom(credential.data)
+          // credential.id is the email; the sub claim is the stable account identifier
+          val userId = extractSubjectFromIdToken(googleIdTokenCredential.idToken) ?: googleIdTokenCredential.id
           
           // Cache the ID token and parse expiration with thread safety
           synchronized(credentialLock) {
@@ -813,12 +1066,14 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
             // Create user info for caching - create a copy to avoid "map already consumed" error
             val cachedUser = Arguments.createMap().apply {
               putString("id", googleIdTokenCredential.id)
+              putString("userId", userId)
               putString("name", googleIdTokenCredential.displayName)
               // Use actual email from ID token, not the ID field
               putString("email", extractEmailFromIdToken(googleIdTokenCredential.idToken) ?: googleIdTokenCredential.id)
               putString("photo", googleIdTokenCredential.profilePictureUri?.toString())
               putString("familyName", googleIdTokenCredential.familyName)
               putString("givenName", googleIdTokenCredential.givenName)
+              putProfileClaims(this, googleIdTokenCredential.idToken)
             }
             
             // Cache tokens and user info first
@@ -832,12 +1087,14 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
           // Create separate user info for response data to avoid "map already consumed" error
           val responseUser = Arguments.createMap().apply {
             putString("id", googleIdTokenCredential.id)
+            putString("userId", userId)
             putString("name", googleIdTokenCredential.displayName)
             // Use actual email from ID token, not the ID field
             putString("email", extractEmailFromIdToken(googleIdTokenCredential.idToken) ?: googleIdTokenCredential.id)
             putString("photo", googleIdTokenCredential.profilePictureUri?.toString())
             putString("familyName", googleIdTokenCredential.familyName)
             putString("givenName", googleIdTokenCredential.givenName)
+            putProfileClaims(this, googleIdTokenCredential.idToken)
           }
           
           val data = Arguments.createMap().apply {
@@ -860,6 +1117,149 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  // Runs an Authorization API request, showing the consent screen when Google requires it
+  private fun authorize(activity: Activity, request: AuthorizationRequest, callback: (AuthorizationResult?, Exception?) -> Unit) {
+    Identity.getAuthorizationClient(activity)
+      .authorize(request)
+      .addOnSuccessListener { result ->
+        val pendingIntent = result.pendingIntent
+        if (result.hasResolution() && pendingIntent != null) {
+          pendingAuthorizationCallback = callback
+          try {
+            activity.startIntentSenderForResult(pendingIntent.intentSender, REQUEST_CODE_AUTHORIZE, null, 0, 0, 0, null)
+          } catch (e: Exception) {
+            pendingAuthorizationCallback = null
+            callback(null, e)
+          }
+        } else {
+          callback(result, null)
+        }
+      }
+      .addOnFailureListener { e -> callback(null, e) }
+  }
+
+  private fun recordAuthorizationResult(result: AuthorizationResult) {
+    synchronized(credentialLock) {
+      grantedScopes.addAll(result.grantedScopes)
+      result.accessToken?.let { cachedAccessToken = it }
+      if (cachedIdToken != null) {
+        saveCredentialsSecurely(cachedIdToken, cachedAccessToken, cachedUserInfo, tokenExpiresAt)
+      }
+    }
+  }
+
+  // Authorizes the configured and per-call scopes for the signed-in account, with a server
+  // auth code when offlineAccess is enabled; sign-in still succeeds without either
+  private suspend fun requestSignInAuthorization(activity: Activity, email: String?, extraScopes: List<String>): String? {
+    val serverClientId = if (offlineAccess) webClientId else null
+    if (offlineAccess && serverClientId == null) {
+      Log.w(NAME, "offlineAccess requires webClientId; no server auth code will be returned")
+    }
+
+    val requestedScopes = (DEFAULT_SCOPES + (configuredScopes ?: emptyList()) + extraScopes).distinct()
+    val requestBuilder = AuthorizationRequest.builder()
+      .setRequestedScopes(requestedScopes.map { Scope(it) })
+    serverClientId?.let { requestBuilder.requestOfflineAccess(it, forceCodeForRefreshToken) }
+    email?.let { requestBuilder.setAccount(Account(it, "com.google")) }
+
+    return withContext(Dispatchers.Main) {
+      suspendCancellableCoroutine { continuation ->
+        authorize(activity, requestBuilder.build()) { result, error ->
+          if (error != null) {
+            Log.w(NAME, "Sign-in authorization failed: " + (error.localizedMessage ?: "Unknown error"))
+          }
+          result?.let { recordAuthorizationResult(it) }
+          continuation.resume(result?.serverAuthCode)
+        }
+      }
+    }
+  }
+
+  // Returns an access token without showing UI, or null when consent would be required
+  private suspend fun requestAccessTokenSilently(activity: Activity, email: String?): String? {
+    val requestBuilder = AuthorizationRequest.builder()
+      .setRequestedScopes(DEFAULT_SCOPES.map { Scope(it) })
+    email?.let { requestBuilder.setAccount(Account(it, "com.google")) }
+
+    return withContext(Dispatchers.Main) {
+      suspendCancellableCoroutine { continuation ->
+        Identity.getAuthorizationClient(activity)
+          .authorize(requestBuilder.build())
+          .addOnSuccessListener { result ->
+            continuation.resume(if (result.hasResolution()) null else result.accessToken)
+          }
+          .addOnFailureListener { e -> continuation.resumeWithException(e) }
+      }
+    }
+  }
+
+  // Posts a token to Google's revocation endpoint; returns "revoked" or "alreadyRevoked"
+  private fun postTokenRevocation(token: String): String {
+    val connection = URL(REVOKE_ENDPOINT).openConnection() as HttpURLConnection
+    try {
+      connection.requestMethod = "POST"
+      connection.doOutput = true
+      connection.setRequestProperty("Content-Type", "application/x-www-form-urlencoded")
+      connection.outputStream.use { it.write("token=${URLEncoder.encode(token, "UTF-8")}".toByteArray()) }
+
+      val statusCode = connection.responseCode
+      if (statusCode in 200..299) {
+        return "revoked"
+      }
+      val body = connection.errorStream?.bufferedReader()?.use { it.readText() } ?: ""
+      if (statusCode == 400 && body.contains("invalid_token")) {
+        return "alreadyRevoked"
+      }
+      throw Exception("Revocation endpoint returned status $statusCode")
+    } finally {
+      connection.disconnect()
+    }
+  }
+
+  // Adds serverAuthCode and granted scopes to a successful sign-in response
+  private suspend fun attachAuthorizationDetails(activity: Activity, signInResult: WritableMap, extraScopes: List<String>): WritableMap {
+    if (signInResult.getString("type") != "success") {
+      return signInResult
+    }
+    val data = signInResult.getMap("data") ?: return signInResult
+
+    val serverAuthCode = if (offlineAccess || extraScopes.isNotEmpty()) {
+      requestSignInAuthorization(activity, data.getMap("user")?.getString("email"), extraScopes)
+    } else {
+      null
+    }
+
+    synchronized(credentialLock) {
+      lastServerAuthCode = serverAuthCode
+      val scopesArray = Arguments.createArray()
+      grantedScopes.forEach { scopesArray.pushString(it) }
+
+      val updatedData = Arguments.createMap().apply {
+        merge(data)
+        putString("serverAuthCode", serverAuthCode)
+        putArray("scopes", scopesArray)
+      }
+      return Arguments.createMap().apply {
+        putString("type", "success")
+        putMap("data", updatedData)
+      }
+    }
+  }
+
+  private fun createAddScopesResponse(accessToken: String?): WritableMap {
+    synchronized(credentialLock) {
+      val scopesArray = Arguments.createArray()
+      grantedScopes.forEach { scopesArray.pushString(it) }
+
+      return Arguments.createMap().apply {
+        putArray("grantedScopes", scopesArray)
+        putString("accessToken", accessToken ?: cachedAccessToken)
+        putString("idToken", cachedIdToken)
+        tokenExpiresAt?.let { putDouble("expiresAt", it.toDouble()) }
+      }
+    }
+  }
+
   private fun parseTokenExpiration(idToken: String) {
     try {
       val parts = idToken.split(".")
@@ -890,6 +1290,37 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     return null
   }
 
+  private fun extractSubjectFromIdToken(idToken: String): String? {
+    try {
+      val parts = idToken.split(".")
+      if (parts.size >= 2) {
+        val payload = String(Base64.decode(parts[1], Base64.URL_SAFE))
+        return JSONObject(payload).optStringOrNull("sub")
+      }
+    } catch (e: Exception) {
+      Log.w(NAME, "Failed to extract subject from ID token: " + (e.localizedMessage ?: "Unknown error"))
+    }
+    return null
+  }
+
+  // Credential Manager does not expose these profile fields, so they come from the ID token claims
+  private fun putProfileClaims(userInfo: WritableMap, idToken: String) {
+    val claims = try {
+      val parts = idToken.split(".")
+      if (parts.size >= 2) JSONObject(String(Base64.decode(parts[1], Base64.URL_SAFE))) else null
+    } catch (e: Exception) {
+      Log.w(NAME, "Failed to extract profile claims from ID token: " + (e.localizedMessage ?: "Unknown error"))
+      null
+    }
+    if (claims != null && claims.has("email_verified") && !claims.isNull("email_verified")) {
+      userInfo.putBoolean("emailVerified", claims.optBoolean("email_verified"))
+    } else {
+      userInfo.putNull("emailVerified")
+    }
+    userInfo.putString("hostedDomain", claims?.optStringOrNull("hd"))
+    userInfo.putString("locale", claims?.optStringOrNull("locale"))
+  }
+
   // MARK: - Secure Credential Storage
   
   private fun saveCredentialsSecurely(idToken: String?, accessToken: String?, userInfo: WritableMap?, expiresAt: Long?) {
@@ -897,11 +1328,15 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
       securePrefs.edit().apply {
         if (idToken != null) putString(PREF_ID_TOKEN, idToken) else remove(PREF_ID_TOKEN)
         if (accessToken != null) putString(PREF_ACCESS_TOKEN, accessToken) else remove(PREF_ACCESS_TOKEN)
-        if (userInfo != null) putString(PREF_USER_INFO, userInfo.toString()) else remove(PREF_USER_INFO)
+        if (userInfo != null) putString(PREF_USER_INFO, userInfoToJson(userInfo).toString()) else remove(PREF_USER_INFO)
         if (expiresAt != null) putLong(PREF_TOKEN_EXPIRES_AT, expiresAt) else remove(PREF_TOKEN_EXPIRES_AT)
+        putStringSet(PREF_GRANTED_SCOPES, grantedScopes.toSet())
         putBoolean(PREF_IS_SIGNED_IN, idToken != null)
         apply()
       }
+      if (idToken != null && userInfo != null) {
+        storeAccount(idToken, accessToken, userInfo, expiresAt)
+      }
       Log.d("GoogleAuth", "Credentials saved securely")
     } catch (e: Exception) {
       Log.e("GoogleAuth", "Failed to save credentials securely: " + (e.localizedMessage ?: "Unknown error"))
@@ -918,19 +1353,17 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
         cachedIdToken = securePrefs.getString(PREF_ID_TOKEN, null)
         cachedAccessToken = securePrefs.getString(PREF_ACCESS_TOKEN, null)
         tokenExpiresAt = securePrefs.getLong(PREF_TOKEN_EXPIRES_AT, 0).takeIf { it > 0 }
+        grantedScopes = (securePrefs.getStringSet(PREF_GRANTED_SCOPES, null) ?: DEFAULT_SCOPES).toMutableSet()
         
         val userInfoJson = securePrefs.getString(PREF_USER_INFO, null)
         cachedUserInfo = userInfoJson?.let {
           try {
-            val jsonObject = JSONObject(it)
-            Arguments.createMap().apply {
-              if (jsonObject.has("id")) putString("id", jsonObject.getString("id"))
-              if (jsonObject.has("name")) putString("name", jsonObject.getString("name"))
-              if (jsonObject.has("email")) putString("email", jsonObject.getString("email"))
-              if (jsonObject.has("photo")) putString("photo", jsonObject.getString("photo"))
-              if (jsonObject.has("familyName")) putString("familyName", jsonObject.getString("familyName"))
-              if (jsonObject.has("givenName")) putString("givenName", jsonObject.getString("givenName"))
+            val json = JSONObject(it)
+            // Sessions saved before userId existed get it from the stored ID token
+            if (!json.has("userId")) {
+              cachedIdToken?.let { token -> extractSubjectFromIdToken(token) }?.let { sub -> json.put("userId", sub) }
             }
+            userInfoFromJson(json)
           } catch (e: Exception) {
             Log.w("GoogleAuth", "Failed to parse cached user info: " + (e.localizedMessage ?: "Unknown error"))
             null
@@ -946,7 +1379,8 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
   
-  private fun clearCredentialsSecurely() {
+  // Clears the active account; other stored accounts are kept when keepAccounts is true
+  private fun clearCredentialsSecurely(keepAccounts: Boolean) {
     synchronized(credentialLock) {
       try {
         securePrefs.edit().apply {
@@ -954,7 +1388,9 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
           remove(PREF_ACCESS_TOKEN)
           remove(PREF_USER_INFO)
           remove(PREF_TOKEN_EXPIRES_AT)
+          remove(PREF_GRANTED_SCOPES)
           remove(PREF_IS_SIGNED_IN)
+          if (!keepAccounts) remove(PREF_ACCOUNTS)
           apply()
         }
         // Clear in-memory cache as well
@@ -962,6 +1398,7 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
         cachedAccessToken = null
         cachedUserInfo = null
         tokenExpiresAt = null
+        grantedScopes = DEFAULT_SCOPES.toMutableSet()
         Log.d("GoogleAuth", "Credentials cleared from secure storage")
       } catch (e: Exception) {
         Log.e("GoogleAuth", "Failed to clear credentials securely: " + (e.localizedMessage ?: "Unknown error"))
@@ -969,6 +1406,114 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     }
   }
   
+  // MARK: - Account Storage
+
+  // Every signed-in account is stored under its userId, next to the active account's credentials
+  private fun readAccounts(): JSONObject {
+    return try {
+      securePrefs.getString(PREF_ACCOUNTS, null)?.let { JSONObject(it) } ?: JSONObject()
+    } catch (e: Exception) {
+      Log.w(NAME, "Failed to read stored accounts: " + (e.localizedMessage ?: "Unknown error"))
+      JSONObject()
+    }
+  }
+
+  private fun writeAccounts(accounts: JSONObject) {
+    try {
+      securePrefs.edit().putString(PREF_ACCOUNTS, accounts.toString()).apply()
+    } catch (e: Exception) {
+      Log.e(NAME, "Failed to save stored accounts: " + (e.localizedMessage ?: "Unknown error"))
+    }
+  }
+
+  private fun storeAccount(idToken: String, accessToken: String?, userInfo: ReadableMap, expiresAt: Long?) {
+    val user = userInfoToJson(userInfo)
+    val userId = user.optStringOrNull("userId") ?: return
+    val accounts = readAccounts()
+    accounts.put(userId, JSONObject().apply {
+      put("user", user)
+      put("idToken", idToken)
+      accessToken?.let { put("accessToken", it) }
+      expiresAt?.let { put("expiresAt", it) }
+      put("scopes", JSONArray(grantedScopes.toList()))
+    })
+    writeAccounts(accounts)
+  }
+
+  private fun signOutAccount(userId: String) {
+    synchronized(credentialLock) {
+      val accounts = readAccounts()
+      accounts.remove(userId)
+      writeAccounts(accounts)
+
+      if (activeUserId() == userId) {
+        lastServerAuthCode = null
+        clearCredentialsSecurely(keepAccounts = true)
+      }
+    }
+  }
+
+  private fun activeUserId(): String? {
+    if (cachedUserInfo == null) {
+      loadCredentialsSecurely()
+    }
+    return cachedUserInfo?.let { if (it.hasKey("userId")) it.getString("userId") else null }
+  }
+
+  private fun resolveStoredAccountTokens(userId: String, promise: Promise) {
+    val account = readAccounts().optJSONObject(userId)
+    val idToken = account?.optStringOrNull("idToken")
+    if (account == null || idToken == null) {
+      promise.reject("ACCOUNT_NOT_FOUND", "No signed-in account with userId $userId")
+      return
+    }
+
+    val expiresAt = account.optLong("expiresAt", 0).takeIf { it > 0 }
+    if (expiresAt != null && System.currentTimeMillis() >= expiresAt) {
+      promise.reject("SIGN_IN_REQUIRED", "Tokens for this account expired; switch to it to refresh them")
+      return
+    }
+
+    val response = Arguments.createMap().apply {
+      putString("idToken", idToken)
+      putString("accessToken", account.optStringOrNull("accessToken"))
+      expiresAt?.let { putDouble("expiresAt", it.toDouble()) }
+      account.optJSONObject("user")?.let { putMap("user", userInfoFromJson(it)) }
+    }
+    promise.resolve(response)
+  }
+
+  private fun userInfoToJson(userInfo: ReadableMap): JSONObject {
+    return JSONObject().apply {
+      USER_FIELDS.forEach { field ->
+        if (userInfo.hasKey(field) && !userInfo.isNull(field)) put(field, userInfo.getString(field))
+      }
+      if (userInfo.hasKey("emailVerified") && !userInfo.isNull("emailVerified")) {
+        put("emailVerified", userInfo.getBoolean("emailVerified"))
+      }
+    }
+  }
+
+  private fun userInfoFromJson(json: JSONObject): WritableMap {
+    return Arguments.createMap().apply {
+      USER_FIELDS.forEach { field -> putString(field, json.optStringOrNull(field)) }
+      if (json.has("emailVerified") && !json.isNull("emailVerified")) {
+        putBoolean("emailVerified", json.getBoolean("emailVerified"))
+      } else {
+        putNull("emailVerified")
+      }
+    }
+  }
+
+  // Fresh copy of user info, since a WritableMap can only be consumed once
+  private fun copyUserInfo(userInfo: ReadableMap?): WritableMap {
+    return userInfo?.let { userInfoFromJson(userInfoToJson(it)) } ?: Arguments.createMap()
+  }
+
+  private fun JSONObject.optStringOrNull(key: String): String? {
+    return if (has(key) && !isNull(key)) getString(key) else null
+  }
+
   companion object {
     const val NAME = "GoogleAuth"
     private const val PREF_ID_TOKEN = "id_token"
@@ -976,5 +1521,12 @@ class GoogleAuthModule(reactContext: ReactApplicationContext) :
     private const val PREF_USER_INFO = "user_info"
     private const val PREF_TOKEN_EXPIRES_AT = "token_expires_at"
     private const val PREF_IS_SIGNED_IN = "is_signed_in"
+    private const val PREF_GRANTED_SCOPES = "granted_scopes"
+    private const val PREF_ACCOUNTS = "accounts"
+    private const val REQUEST_CODE_AUTHORIZE = 9001
+    private const val REVOKE_ENDPOINT = "https://oauth2.googleapis.com/revoke"
+    // Scopes implied by Sign in with Google
+    private val DEFAULT_SCOPES = setOf("openid", "email", "profile")
+    private val USER_FIELDS = listOf("id", "userId", "name", "email", "photo", "familyName", "givenName", "hostedDomain", "locale")
   }
 }
@@ -10,6 +10,12 @@ class GoogleAuth: NSObject {
 
     private var configuredScopes: [String] = []
     private var forceAccountPicker: Bool = false
+    private var configuredHostedDomain: String?
+    // Server auth code from the most recent interactive sign-in
+    private var lastServerAuthCode: String?
+    // Accounts signed in during this launch; GIDSignIn itself only keeps the latest one
+    private var accounts: [GIDGoogleUser] = []
+    private var activeUserId: String?
 
     private override init() {
         super.init()
@@ -35,10 +41,18 @@ class GoogleAuth: NSObject {
         // Get hosted domain if provided
         let hostedDomain = params["hostedDomain"] as? String
         
+        // A server client ID makes Google return a server auth code for offline access
+        let offlineAccess = params["offlineAccess"] as? Bool ?? false
+        let serverClientId = offlineAccess ? params["webClientId"] as? String : nil
+        if offlineAccess && serverClientId == nil {
+            print("GoogleAuth: Warning - offlineAccess requires webClientId; no server auth code will be returned")
+        }
+        
         // Configure Google Sign-In with validation
         do {
-            let configuration = try createGoogleSignInConfiguration(clientId: clientId, hostedDomain: hostedDomain)
+            let configuration = try createGoogleSignInConfiguration(clientId: clientId, serverClientId: serverClientId, hostedDomain: hostedDomain)
             GIDSignIn.sharedInstance.configuration = configuration
+            configuredHostedDomain = configuration.hostedDomain
             print("GoogleAuth: Successfully configured with client ID: \(maskClientId(clientId))")
             
             // Store scopes for later use during sign-in
@@ -63,55 +77,101 @@ class GoogleAuth: NSObject {
     // MARK: - Sign-in Methods
     
     @objc
-    func signIn(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    func signIn(_ options: [String: Any]?, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
         guard isConfigured else {
             reject("NOT_CONFIGURED", "GoogleAuth must be configured before signing in", nil)
             return
         }
 
+        // Optional nonce embedded in the ID token for replay protection
+        let nonce = options?["nonce"] as? String
+        // Per-call overrides; JS merges them over the configuration
+        let mode = options?["mode"] as? String ?? "auto"
+        let hint = options?["loginHint"] as? String
+        let forceAccountPicker = options?["forceAccountPicker"] as? Bool ?? self.forceAccountPicker
+        let hostedDomain = options?["hostedDomain"] as? String ?? configuredHostedDomain
+        let extraScopes = (options?["scopes"] as? [String] ?? []).filter { isValidScopeFormat($0) }
+
         DispatchQueue.main.async {
             guard let presentingViewController = self.getPresentingViewController() else {
                 reject("NO_VIEW_CONTROLLER", "No presenting view controller found", nil)
                 return
             }
 
-            // If forceAccountPicker is enabled, skip silent sign-in and show account picker directly
-            if self.forceAccountPicker {
-                print("GoogleAuth: forceAccountPicker enabled, skipping silent sign-in")
-                self.performInteractiveSignIn(presentingViewController: presentingViewController, resolve: resolve, reject: reject)
+            self.applyHostedDomain(hostedDomain)
+            let signInInteractively = {
+                self.performInteractiveSignIn(presentingViewController: presentingViewController, hint: hint, extraScopes: extraScopes, nonce: nonce, resolve: resolve, reject: reject)
+            }
+
+            // Silent mode never shows UI; a restored session cannot carry a new nonce
+            if mode == "silent" {
+                guard nonce == nil else {
+                    resolve(["type": "noSavedCredentialFound"])
+                    return
+                }
+                self.signInSilently(resolve, reject: reject)
+                return
+            }
+
+            // Interactive mode or forceAccountPicker skips silent sign-in and shows the account picker directly
+            if mode == "interactive" || forceAccountPicker {
+                print("GoogleAuth: interactive sign-in requested, skipping silent sign-in")
+                signInInteractively()
+                return
+            }
+
+            // A restored session reuses its old ID token, which cannot carry a new nonce.
+            // Extra scopes need consent, which only the interactive flow can ask for.
+            if nonce != nil || !extraScopes.isEmpty {
+                print("GoogleAuth: nonce or extra scopes provided, skipping silent sign-in")
+                signInInteractively()
                 return
             }
 
             // Try silent sign-in first
             GIDSignIn.sharedInstance.restorePreviousSignIn { [weak self] result, error in
-                if let error = error {
+                if error == nil, let user = result {
+                    self?.handleSignInSuccess(user: user, resolve: resolve)
+                } else {
                     // No previous sign-in, show interactive sign-in
-                    self?.performInteractiveSignIn(presentingViewController: presentingViewController, resolve: resolve, reject: reject)
-                    return
+                    signInInteractively()
                 }
+            }
+        }
+    }
+    
+    @objc
+    func signInSilently(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard isConfigured else {
+            reject("NOT_CONFIGURED", "GoogleAuth must be configured before signing in", nil)
+            return
+        }
 
+        // Restores the Keychain session without UI, refreshing its tokens if needed
+        DispatchQueue.main.async {
+            GIDSignIn.sharedInstance.restorePreviousSignIn { [weak self] result, _ in
                 if let user = result {
                     self?.handleSignInSuccess(user: user, resolve: resolve)
                 } else {
-                    // No user found, show interactive sign-in
-                    self?.performInteractiveSignIn(presentingViewController: presentingViewController, resolve: resolve, reject: reject)
+                    resolve(["type": "noSavedCredentialFound"])
                 }
             }
         }
     }
-    
+
+    @objc
+    func hasPreviousSignIn(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        resolve(GIDSignIn.sharedInstance.hasPreviousSignIn())
+    }
+
     // MARK: - Private Helper Methods
     
-    private func performInteractiveSignIn(presentingViewController: UIViewController, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-        // Use configured scopes if available
-        if !configuredScopes.isEmpty {
-            GIDSignIn.sharedInstance.signIn(withPresenting: presentingViewController, hint: nil, additionalScopes: configuredScopes) { [weak self] result, error in
-                self?.handleSignInResult(result: result, error: error, resolve: resolve, reject: reject)
-            }
-        } else {
-            GIDSignIn.sharedInstance.signIn(withPresenting: presentingViewController) { [weak self] result, error in
-                self?.handleSignInResult(result: result, error: error, resolve: resolve, reject: reject)
-            }
+    private func performInteractiveSignIn(presentingViewController: UIViewController, hint: String?, extraScopes: [String], nonce: String?, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        // Configured scopes plus any requested for this call
+        let scopes = configuredScopes + extraScopes.filter { !configuredScopes.contains($0) }
+        let additionalScopes = scopes.isEmpty ? nil : scopes
+        GIDSignIn.sharedInstance.signIn(withPresenting: presentingViewController, hint: hint, additionalScopes: additionalScopes, nonce: nonce) { [weak self] result, error in
+            self?.handleSignInResult(result: result, error: error, resolve: resolve, reject: reject)
         }
     }
     
@@ -129,8 +189,10 @@ class GoogleAuth: NSObject {
             return
         }
         
-        if let user = result?.user {
-            handleSignInSuccess(user: user, resolve: resolve)
+        if let result = result {
+            // Server auth codes are single-use and only issued on interactive sign-in
+            lastServerAuthCode = result.serverAuthCode
+            handleSignInSuccess(user: result.user, serverAuthCode: result.serverAuthCode, resolve: resolve)
         } else {
             reject("SIGN_IN_ERROR", "No user returned from sign-in", nil)
         }
@@ -154,16 +216,80 @@ class GoogleAuth: NSObject {
     // MARK: - Sign-out
     
     @objc
-    func signOut(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    func signOut(_ options: [String: Any]?, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        // Signing out a single account keeps the others
+        if let userId = options?["userId"] as? String {
+            removeAccount(userId)
+            resolve(nil)
+            return
+        }
+
         GIDSignIn.sharedInstance.signOut()
+        accounts.removeAll()
+        activeUserId = nil
+        lastServerAuthCode = nil
         resolve(nil)
     }
     
+    @objc
+    func revokeAccess(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard isConfigured else {
+            reject("NOT_CONFIGURED", "GoogleAuth must be configured before revoking access", nil)
+            return
+        }
+        guard let user = currentUser(), let userId = user.userID else {
+            reject("NOT_SIGNED_IN", "No user is currently signed in", nil)
+            return
+        }
+        
+        // GIDSignIn.disconnect only covers its most recent user, so revoke the refresh
+        // token directly; it outlives access tokens and covers the whole grant
+        var request = URLRequest(url: URL(string: "https://oauth2.googleapis.com/revoke")!)
+        request.httpMethod = "POST"
+        request.setValue("application/x-www-form-urlencoded", forHTTPHeaderField: "Content-Type")
+        let token = user.refreshToken.tokenString
+        let encodedToken = token.addingPercentEncoding(withAllowedCharacters: .alphanumerics) ?? token
+        request.httpBody = "token=\(encodedToken)".data(using: .utf8)
+        
+        URLSession.shared.dataTask(with: request) { [weak self] data, response, error in
+            DispatchQueue.main.async {
+                if let error = error {
+                    reject("NETWORK_ERROR", error.localizedDescription, error)
+                    return
+                }
+                
+                let statusCode = (response as? HTTPURLResponse)?.statusCode ?? 0
+                let body = data.flatMap { String(data: $0, encoding: .utf8) } ?? ""
+                let status: String
+                if (200..<300).contains(statusCode) {
+                    status = "revoked"
+                } else if statusCode == 400 && body.contains("invalid_token") {
+                    status = "alreadyRevoked"
+                } else {
+                    reject("REVOKE_ERROR", "Revocation endpoint returned status \(statusCode)", nil)
+                    return
+                }
+                
+                self?.removeAccount(userId)
+                resolve(["status": status])
+            }
+        }.resume()
+    }
+    
+    @objc
+    func getServerAuthCode(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        resolve(lastServerAuthCode)
+    }
+    
     // MARK: - Token Management
     
     @objc
-    func getTokens(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-        guard let user = GIDSignIn.sharedInstance.currentUser else {
+    func getTokens(_ userId: String?, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        if let userId = userId, account(withId: userId) == nil {
+            reject("ACCOUNT_NOT_FOUND", "No signed-in account with userId \(userId)", nil)
+            return
+        }
+        guard let user = userId.flatMap({ account(withId: $0) }) ?? currentUser() else {
             reject("NOT_SIGNED_IN", "No user is currently signed in", nil)
             return
         }
@@ -190,7 +316,7 @@ class GoogleAuth: NSObject {
     
     @objc
     func refreshTokens(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-        guard let user = GIDSignIn.sharedInstance.currentUser else {
+        guard let user = currentUser() else {
             reject("NOT_SIGNED_IN", "No user is currently signed in", nil)
             return
         }
@@ -210,15 +336,7 @@ class GoogleAuth: NSObject {
             let accessToken = user.accessToken.tokenString
             let expiresAt = user.accessToken.expirationDate?.timeIntervalSince1970 ?? 0
             
-            // Break up the complex expression to help Swift compiler
-            let userInfo: [String: Any] = [
-                "id": user.userID ?? "",
-                "name": user.profile?.name ?? "",
-                "email": user.profile?.email ?? "",
-                "photo": user.profile?.imageURL(withDimension: 120)?.absoluteString ?? "",
-                "familyName": user.profile?.familyName ?? "",
-                "givenName": user.profile?.givenName ?? ""
-            ]
+            let userInfo = self.createUserData(user: user)
             
             let result: [String: Any] = [
                 "idToken": idToken,
@@ -233,7 +351,7 @@ class GoogleAuth: NSObject {
     
     @objc
     func isTokenExpired(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-        guard let user = GIDSignIn.sharedInstance.currentUser else {
+        guard let user = currentUser() else {
             resolve(true) // No user, consider expired
             return
         }
@@ -244,23 +362,91 @@ class GoogleAuth: NSObject {
     
     @objc
     func getCurrentUser(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
-        guard let user = GIDSignIn.sharedInstance.currentUser else {
+        guard let user = currentUser() else {
             resolve(nil)
             return
         }
         
-        let userData: [String: Any] = [
-            "id": user.userID ?? "",
-            "name": user.profile?.name ?? "",
-            "email": user.profile?.email ?? "",
-            "photo": user.profile?.imageURL(withDimension: 120)?.absoluteString ?? "",
-            "familyName": user.profile?.familyName ?? "",
-            "givenName": user.profile?.givenName ?? ""
-        ]
+        let userData = createUserData(user: user)
         
         resolve(userData)
     }
     
+    // MARK: - Incremental Authorization
+    
+    @objc
+    func addScopes(_ scopes: [String], resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard let user = currentUser() else {
+            reject("NOT_SIGNED_IN", "No user is currently signed in", nil)
+            return
+        }
+        
+        DispatchQueue.main.async { [weak self] in
+            guard let self = self else { return }
+            
+            guard let presentingViewController = self.getPresentingViewController() else {
+                reject("NO_VIEW_CONTROLLER", "No presenting view controller available", nil)
+                return
+            }
+            
+            user.addScopes(scopes, presenting: presentingViewController) { result, error in
+                if let error = error as NSError? {
+                    // Cancelling or re-requesting granted scopes is not a failure
+                    if error.code == GIDSignInError.canceled.rawValue || error.code == GIDSignInError.scopesAlreadyGranted.rawValue {
+                        resolve(self.createAddScopesResponse(user: user))
+                        return
+                    }
+                    reject("ADD_SCOPES_ERROR", self.getDetailedErrorMessage(for: error), error)
+                    return
+                }
+                
+                resolve(self.createAddScopesResponse(user: result?.user ?? user))
+            }
+        }
+    }
+    
+    @objc
+    func getGrantedScopes(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        resolve(currentUser()?.grantedScopes ?? [])
+    }
+    
+    private func createAddScopesResponse(user: GIDGoogleUser) -> [String: Any] {
+        var response: [String: Any] = [
+            "grantedScopes": user.grantedScopes ?? [],
+            "accessToken": user.accessToken.tokenString,
+            "idToken": user.idToken?.tokenString ?? NSNull()
+        ]
+        if let expirationDate = user.accessToken.expirationDate {
+            response["expiresAt"] = expirationDate.timeIntervalSince1970 * 1000 // Convert to milliseconds
+        }
+        return response
+    }
+    
+    // MARK: - Multiple Accounts
+    
+    @objc
+    func getAccounts(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        _ = currentUser()
+        resolve(accounts.map { createUserData(user: $0) })
+    }
+    
+    @objc
+    func switchAccount(_ userId: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard isConfigured else {
+            reject("NOT_CONFIGURED", "GoogleAuth must be configured before switching accounts", nil)
+            return
+        }
+        guard let user = account(withId: userId) else {
+            reject("ACCOUNT_NOT_FOUND", "No signed-in account with userId \(userId)", nil)
+            return
+        }
+        
+        activeUserId = userId
+        // Server auth codes belong to the sign-in that issued them
+        lastServerAuthCode = nil
+        resolve(createUserData(user: user))
+    }
+    
     // MARK: - Utility Methods
     
     @objc
@@ -343,18 +529,21 @@ class GoogleAuth: NSObject {
         return clientId
     }
     
-    private func createGoogleSignInConfiguration(clientId: String, hostedDomain: String?) throws -> GIDConfiguration {
+    // Swaps the hosted domain filter of the current configuration when a sign-in overrides it
+    private func applyHostedDomain(_ hostedDomain: String?) {
+        guard let current = GIDSignIn.sharedInstance.configuration else { return }
+        let domain = hostedDomain?.isEmpty == false ? hostedDomain : nil
+        guard current.hostedDomain != domain else { return }
+        GIDSignIn.sharedInstance.configuration = GIDConfiguration(clientID: current.clientID, serverClientID: current.serverClientID, hostedDomain: domain, openIDRealm: current.openIDRealm)
+    }
+
+    private func createGoogleSignInConfiguration(clientId: String, serverClientId: String?, hostedDomain: String?) throws -> GIDConfiguration {
         guard !clientId.isEmpty else {
             throw NSError(domain: "GoogleAuthError", code: 1001, userInfo: [NSLocalizedDescriptionKey: "Client ID cannot be empty"])
         }
         
-        let configuration: GIDConfiguration
-        
-        if let domain = hostedDomain, !domain.isEmpty {
-            configuration = GIDConfiguration(clientID: clientId, serverClientID: nil, hostedDomain: domain, openIDRealm: nil)
-        } else {
-            configuration = GIDConfiguration(clientID: clientId)
-        }
+        let domain = hostedDomain?.isEmpty == false ? hostedDomain : nil
+        let configuration = GIDConfiguration(clientID: clientId, serverClientID: serverClientId, hostedDomain: domain, openIDRealm: nil)
         
         return configuration
     }
@@ -388,11 +577,12 @@ class GoogleAuth: NSObject {
     }
     
     private func isValidScopeFormat(_ scope: String) -> Bool {
-        // Validate OAuth 2.0 scope format
-        return scope.hasPrefix("https://www.googleapis.com/auth/") ||
-               scope == "openid" ||
-               scope == "email" ||
-               scope == "profile"
+        // Validate OAuth 2.0 scope format; some Google scopes live on google.com, e.g. https://mail.google.com/
+        if scope == "openid" || scope == "email" || scope == "profile" {
+            return true
+        }
+        let pattern = "^https://([a-zA-Z0-9-]+\\.)*(googleapis|google)\\.com/[\\w./-]*$"
+        return scope.range(of: pattern, options: .regularExpression) != nil
     }
     
     private func maskClientId(_ clientId: String) -> String {
@@ -405,28 +595,24 @@ class GoogleAuth: NSObject {
     
     // MARK: - Helper Methods
     
-    private func handleSignInSuccess(user: GIDGoogleUser, resolve: @escaping RCTPromiseResolveBlock) {
+    private func handleSignInSuccess(user: GIDGoogleUser, serverAuthCode: String? = nil, resolve: @escaping RCTPromiseResolveBlock) {
         guard let idToken = user.idToken?.tokenString else {
             resolve([
                 "type": "noSavedCredentialFound"
             ])
             return
         }
+        registerAccount(user)
         
-        let userData: [String: Any?] = [
-            "id": user.userID,
-            "name": user.profile?.name,
-            "email": user.profile?.email,
-            "photo": user.profile?.imageURL(withDimension: 120)?.absoluteString,
-            "familyName": user.profile?.familyName,
-            "givenName": user.profile?.givenName
-        ]
+        let userData = createUserData(user: user)
         
         let response: [String: Any] = [
             "type": "success",
             "data": [
                 "idToken": idToken,
                 "accessToken": user.accessToken.tokenString,
+                "serverAuthCode": serverAuthCode ?? NSNull(),
+                "scopes": user.grantedScopes ?? [],
                 "user": userData
             ]
         ]
@@ -434,6 +620,70 @@ class GoogleAuth: NSObject {
         resolve(response)
     }
     
+    // Active account; a session restored by GIDSignIn becomes active when none is tracked yet
+    private func currentUser() -> GIDGoogleUser? {
+        if activeUserId == nil, accounts.isEmpty, let restored = GIDSignIn.sharedInstance.currentUser {
+            registerAccount(restored)
+        }
+        return activeUserId.flatMap { account(withId: $0) }
+    }
+    
+    private func account(withId userId: String) -> GIDGoogleUser? {
+        return accounts.first { $0.userID == userId }
+    }
+    
+    // Signs out one account; GIDSignIn's keychain session is cleared when it belongs to it
+    private func removeAccount(_ userId: String) {
+        accounts.removeAll { $0.userID == userId }
+        if GIDSignIn.sharedInstance.currentUser?.userID == userId {
+            GIDSignIn.sharedInstance.signOut()
+        }
+        if activeUserId == userId {
+            activeUserId = nil
+            lastServerAuthCode = nil
+        }
+    }
+    
+    // Adds or replaces the account and makes it the active one
+    private func registerAccount(_ user: GIDGoogleUser) {
+        if let index = accounts.firstIndex(where: { $0.userID == user.userID }) {
+            accounts[index] = user
+        } else {
+            accounts.append(user)
+        }
+        activeUserId = user.userID
+    }
+    
+    private func createUserData(user: GIDGoogleUser) -> [String: Any] {
+        let claims = profileClaims(user: user)
+        return [
+            "id": user.userID ?? "",
+            "userId": user.userID ?? "",
+            "name": user.profile?.name ?? NSNull(),
+            "email": user.profile?.email ?? "",
+            "photo": user.profile?.imageURL(withDimension: 120)?.absoluteString ?? NSNull(),
+            "familyName": user.profile?.familyName ?? NSNull(),
+            "givenName": user.profile?.givenName ?? NSNull(),
+            "emailVerified": claims["email_verified"] as? Bool ?? NSNull(),
+            "hostedDomain": claims["hd"] as? String ?? NSNull(),
+            "locale": claims["locale"] as? String ?? NSNull()
+        ]
+    }
+    
+    // GIDProfileData has no verification, domain or locale fields, so they are read from the ID token
+    private func profileClaims(user: GIDGoogleUser) -> [String: Any] {
+        guard let parts = user.idToken?.tokenString.split(separator: "."), parts.count >= 2 else {
+            return [:]
+        }
+        var payload = parts[1].replacingOccurrences(of: "-", with: "+").replacingOccurrences(of: "_", with: "/")
+        payload += String(repeating: "=", count: (4 - payload.count % 4) % 4)
+        guard let data = Data(base64Encoded: payload),
+              let claims = try? JSONSerialization.jsonObject(with: data) as? [String: Any] else {
+            return [:]
+        }
+        return claims
+    }
+    
     private func getPresentingViewController() -> UIViewController? {
         if let scene = UIApplication.shared.connectedScenes.first as? UIWindowScene,
            let window = scene.windows.first(where: { $0.isKeyWindow }) {
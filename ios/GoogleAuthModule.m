@@ -27,13 +27,43 @@ RCT_EXPORT_METHOD(configure:(NSDictionary *)params
 
 // MARK: - Sign-in Methods
 
-RCT_EXPORT_METHOD(signIn:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(signIn:(NSDictionary *)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(signIn:resolve:reject:)]) {
+            NSMethodSignature *signature = [googleAuth methodSignatureForSelector:@selector(signIn:resolve:reject:)];
+            NSInvocation *invocation = [NSInvocation invocationWithMethodSignature:signature];
+            [invocation setTarget:googleAuth];
+            [invocation setSelector:@selector(signIn:resolve:reject:)];
+            [invocation setArgument:&options atIndex:2];
+            [invocation setArgument:&resolve atIndex:3];
+            [invocation setArgument:&reject atIndex:4];
+            [invocation invoke];
+        }
+    }
+}
+
+RCT_EXPORT_METHOD(signInSilently:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(signInSilently:reject:)]) {
+            [googleAuth performSelector:@selector(signInSilently:reject:) withObject:resolve withObject:reject];
+        }
+    }
+}
+
+RCT_EXPORT_METHOD(hasPreviousSignIn:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
     Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
     if (GoogleAuthClass) {
         id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
-        if ([googleAuth respondsToSelector:@selector(signIn:reject:)]) {
-            [googleAuth performSelector:@selector(signIn:reject:) withObject:resolve withObject:reject];
+        if ([googleAuth respondsToSelector:@selector(hasPreviousSignIn:reject:)]) {
+            [googleAuth performSelector:@selector(hasPreviousSignIn:reject:) withObject:resolve withObject:reject];
         }
     }
 }
@@ -42,26 +72,53 @@ RCT_EXPORT_METHOD(signIn:(RCTPromiseResolveBlock)resolve
 
 // MARK: - Sign-out
 
-RCT_EXPORT_METHOD(signOut:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(signOut:(NSDictionary *)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(signOut:resolve:reject:)]) {
+            NSMethodSignature *signature = [googleAuth methodSignatureForSelector:@selector(signOut:resolve:reject:)];
+            NSInvocation *invocation = [NSInvocation invocationWithMethodSignature:signature];
+            [invocation setTarget:googleAuth];
+            [invocation setSelector:@selector(signOut:resolve:reject:)];
+            [invocation setArgument:&options atIndex:2];
+            [invocation setArgument:&resolve atIndex:3];
+            [invocation setArgument:&reject atIndex:4];
+            [invocation invoke];
+        }
+    }
+}
+
+RCT_EXPORT_METHOD(revokeAccess:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
     Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
     if (GoogleAuthClass) {
         id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
-        if ([googleAuth respondsToSelector:@selector(signOut:reject:)]) {
-            [googleAuth performSelector:@selector(signOut:reject:) withObject:resolve withObject:reject];
+        if ([googleAuth respondsToSelector:@selector(revokeAccess:reject:)]) {
+            [googleAuth performSelector:@selector(revokeAccess:reject:) withObject:resolve withObject:reject];
         }
     }
 }
 
 // MARK: - Token Management
 
-RCT_EXPORT_METHOD(getTokens:(RCTPromiseResolveBlock)resolve
+RCT_EXPORT_METHOD(getTokens:(NSString *)userId
+                  resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject) {
     Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
     if (GoogleAuthClass) {
         id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
-        if ([googleAuth respondsToSelector:@selector(getTokens:reject:)]) {
-            [googleAuth performSelector:@selector(getTokens:reject:) withObject:resolve withObject:reject];
+        if ([googleAuth respondsToSelector:@selector(getTokens:resolve:reject:)]) {
+            NSMethodSignature *signature = [googleAuth methodSignatureForSelector:@selector(getTokens:resolve:reject:)];
+            NSInvocation *invocation = [NSInvocation invocationWithMethodSignature:signature];
+            [invocation setTarget:googleAuth];
+            [invocation setSelector:@selector(getTokens:resolve:reject:)];
+            [invocation setArgument:&userId atIndex:2];
+            [invocation setArgument:&resolve atIndex:3];
+            [invocation setArgument:&reject atIndex:4];
+            [invocation invoke];
         }
     }
 }
@@ -99,6 +156,81 @@ RCT_EXPORT_METHOD(getCurrentUser:(RCTPromiseResolveBlock)resolve
     }
 }
 
+RCT_EXPORT_METHOD(getServerAuthCode:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(getServerAuthCode:reject:)]) {
+            [googleAuth performSelector:@selector(getServerAuthCode:reject:) withObject:resolve withObject:reject];
+        }
+    }
+}
+
+// MARK: - Incremental Authorization
+
+RCT_EXPORT_METHOD(addScopes:(NSArray *)scopes
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(addScopes:resolve:reject:)]) {
+            NSMethodSignature *signature = [googleAuth methodSignatureForSelector:@selector(addScopes:resolve:reject:)];
+            NSInvocation *invocation = [NSInvocation invocationWithMethodSignature:signature];
+            [invocation setTarget:googleAuth];
+            [invocation setSelector:@selector(addScopes:resolve:reject:)];
+            [invocation setArgument:&scopes atIndex:2];
+            [invocation setArgument:&resolve atIndex:3];
+            [invocation setArgument:&reject atIndex:4];
+            [invocation invoke];
+        }
+    }
+}
+
+RCT_EXPORT_METHOD(getGrantedScopes:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(getGrantedScopes:reject:)]) {
+            [googleAuth performSelector:@selector(getGrantedScopes:reject:) withObject:resolve withObject:reject];
+        }
+    }
+}
+
+// MARK: - Multiple Accounts
+
+RCT_EXPORT_METHOD(getAccounts:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(getAccounts:reject:)]) {
+            [googleAuth performSelector:@selector(getAccounts:reject:) withObject:resolve withObject:reject];
+        }
+    }
+}
+
+RCT_EXPORT_METHOD(switchAccount:(NSString *)userId
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject) {
+    Class GoogleAuthClass = NSClassFromString(@"GoogleAuth");
+    if (GoogleAuthClass) {
+        id googleAuth = [GoogleAuthClass performSelector:@selector(shared)];
+        if ([googleAuth respondsToSelector:@selector(switchAccount:resolve:reject:)]) {
+            NSMethodSignature *signature = [googleAuth methodSignatureForSelector:@selector(switchAccount:resolve:reject:)];
+            NSInvocation *invocation = [NSInvocation invocationWithMethodSignature:signature];
+            [invocation setTarget:googleAuth];
+            [invocation setSelector:@selector(switchAccount:resolve:reject:)];
+            [invocation setArgument:&userId atIndex:2];
+            [invocation setArgument:&resolve atIndex:3];
+            [invocation setArgument:&reject atIndex:4];
+            [invocation invoke];
+        }
+    }
+}
+
 // MARK: - Utility Methods
 
 RCT_EXPORT_METHOD(checkPlayServices:(BOOL)showErrorDialog
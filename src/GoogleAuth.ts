@@ -0,0 +1,693 @@
+import { NativeGoogleAuth, isNativeModuleAvailable } from './nativeModule';
+import type {
+  ConfigureParams,
+  User,
+  SignInResponse,
+  OneTapResponse,
+  GetTokensResponse,
+  RefreshTokensResponse,
+  PlayServicesInfo,
+  SignInOptions,
+  SignOutOptions,
+  RevokeAccessResponse,
+} from './NativeGoogleAuth';
+import { GoogleAuthScopes, getScopeInfo } from './scopes';
+import {
+  GoogleAuthErrorCodes,
+  createErrorResponse,
+  isErrorWithCode,
+  normalizeError,
+} from './errors';
+import type { GoogleAuthErrorCode } from './errors';
+import {
+  validateConfiguration,
+  validateScopes,
+  validateSignInOptions,
+} from './validation';
+import {
+  onAuthStateChanged,
+  onTokensChanged,
+  onAccountsChanged,
+  setAuthUser,
+  setAuthTokens,
+  setAuthAccounts,
+  upsertAuthAccount,
+  removeAuthAccount,
+  clearAuthState,
+  getAuthUser,
+  getAuthTokens,
+} from './authState';
+import type { AuthTokens } from './authState';
+import { createAutoRefresh } from './autoRefresh';
+import {
+  getConfiguration,
+  resolveSignInOptions,
+  setConfiguration,
+} from './configuration';
+import { assertDomainAllowed } from './domain';
+import { setPendingNonce, consumePendingNonce } from './nonce';
+import { getCachedSession, setTokenStore } from './tokenStore';
+import { log, setLogger, setLogLevel } from './logger';
+import { instrument, use } from './telemetry';
+import { revokeToken } from './revoke';
+import { getProfilePhotoUrl, withProfileClaims } from './profile';
+import { getTokenExpiry } from './idToken';
+import type { AutoRefreshHandle, AutoRefreshOptions } from './autoRefresh';
+
+// Error handling wrapper
+// Every GoogleAuth method rethrows through here so callers always get a GoogleAuthError
+const handleError = (
+  error: unknown,
+  operation: string,
+  fallbackCode?: GoogleAuthErrorCode
+): never => {
+  const normalized = normalizeError(error, operation, fallbackCode);
+  log.error(`${operation} error`, normalized);
+  throw normalized;
+};
+
+// Expiry of an ID token in milliseconds, or undefined when it has no valid exp
+const idTokenExpiry = (idToken: string): number | undefined => {
+  try {
+    return getTokenExpiry(idToken);
+  } catch {
+    return undefined;
+  }
+};
+
+// Strips extra native fields (e.g. user) so only token values are tracked.
+// Native getTokens may omit expiresAt, so it falls back to the ID token's exp.
+const toAuthTokens = (
+  tokens: GetTokensResponse | RefreshTokensResponse
+): AuthTokens => ({
+  idToken: tokens.idToken,
+  accessToken: tokens.accessToken,
+  expiresAt: tokens.expiresAt ?? idTokenExpiry(tokens.idToken),
+});
+
+// Deprecated scopes are still sent; Google ignores or rejects them at consent
+const warnDeprecatedScopes = (scopes: readonly string[] | undefined) => {
+  scopes?.forEach((scope) => {
+    const info = getScopeInfo(scope);
+    if (info?.deprecated) {
+      log.warn(
+        `OAuth scope ${scope} is no longer supported by Google${
+          info.replacedBy ? `. Use ${info.replacedBy.join(' or ')} instead` : ''
+        }`
+      );
+    }
+  });
+};
+
+export interface GetFreshTokensOptions {
+  /**
+   * Minimum remaining lifetime, in seconds, for cached tokens to be returned
+   * Default: 60
+   */
+  minValiditySeconds?: number;
+}
+
+export interface AddScopesResult {
+  /** Requested scopes the user has granted */
+  grantedScopes: string[];
+  /** Requested scopes the user declined */
+  deniedScopes: string[];
+}
+
+// Revokes natively, or through Google's revocation endpoint when the native
+// module does not implement revokeAccess
+const revokeActiveAccount = async (
+  userId: string | undefined
+): Promise<RevokeAccessResponse> => {
+  if (typeof NativeGoogleAuth.revokeAccess === 'function') {
+    try {
+      return await NativeGoogleAuth.revokeAccess();
+    } catch (error) {
+      if (
+        !isErrorWithCode(error) ||
+        error.code !== GoogleAuthErrorCodes.NOT_IMPLEMENTED
+      ) {
+        throw error;
+      }
+    }
+  }
+
+  const tokens = getAuthTokens() ?? (await NativeGoogleAuth.getTokens());
+  if (!tokens.accessToken) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.INVALID_TOKEN,
+      'No access token available to revoke'
+    );
+  }
+
+  const status = await revokeToken(tokens.accessToken);
+  await NativeGoogleAuth.signOut(userId === undefined ? undefined : { userId });
+  return { status };
+};
+
+// Runs check on a successful sign-in, then publishes the account; accounts
+// that fail the check are signed out natively and the error is rethrown
+const acceptSignIn = async (
+  response: SignInResponse,
+  operation: 'signIn' | 'signInSilently',
+  check: (idToken: string) => void
+): Promise<SignInResponse> => {
+  try {
+    check(response.data.idToken);
+  } catch (error) {
+    // Don't leave a native session behind for a token we refused
+    await NativeGoogleAuth.signOut({
+      userId: response.data.user.userId,
+    }).catch(() => {});
+    return handleError(error, operation, GoogleAuthErrorCodes.SIGN_IN_ERROR);
+  }
+
+  const data = {
+    ...response.data,
+    user: withProfileClaims(response.data.user, response.data.idToken),
+  };
+  upsertAuthAccount(data.user);
+  setAuthUser(data.user);
+  setAuthTokens({
+    idToken: data.idToken,
+    accessToken: data.accessToken,
+    expiresAt: idTokenExpiry(data.idToken),
+  });
+  return { ...response, data };
+};
+
+// Shared by every concurrent refreshTokens caller
+let refreshInFlight: Promise<RefreshTokensResponse> | null = null;
+
+let autoRefresh: AutoRefreshHandle | null = null;
+
+/**
+ * Google Auth API
+ */
+export const GoogleAuth = {
+  /**
+   * Configure Google Sign-In with the provided parameters
+   * The configuration is validated in JS first; every problem is reported in
+   * a single INVALID_CONFIG error whose userInfo.issues lists each field
+   */
+  configure: (params: ConfigureParams): Promise<void> =>
+    instrument('configure', async () => {
+      try {
+        const issues = validateConfiguration(params);
+        if (issues.length > 0) {
+          throw createErrorResponse(
+            GoogleAuthErrorCodes.INVALID_CONFIG,
+            `Invalid configuration: ${issues
+              .map((issue) => `${issue.field || 'config'}: ${issue.message}`)
+              .join('; ')}`,
+            { issues }
+          );
+        }
+        warnDeprecatedScopes(params.scopes);
+
+        await NativeGoogleAuth.configure(params);
+        setConfiguration(params);
+      } catch (error) {
+        handleError(error, 'configure', GoogleAuthErrorCodes.CONFIG_ERROR);
+      }
+    }),
+
+  /**
+   * Sign in with Google using One Tap or standard flow
+   * Options override the configured mode, account hint, account picker and
+   * hosted domain for this call only; options.scopes are requested on top of
+   * the configured scopes. Invalid options reject with INVALID_CONFIG.
+   * When options.nonce is set, the returned ID token's nonce claim is checked
+   * and the sign-in is rejected with NONCE_MISMATCH if it differs. Accounts
+   * outside hostedDomain, allowedDomains and allowedEmails are signed out and
+   * rejected with DOMAIN_NOT_ALLOWED
+   */
+  signIn: (options?: SignInOptions): Promise<OneTapResponse> =>
+    instrument(
+      'signIn',
+      async () => {
+        let resolved: SignInOptions;
+        try {
+          const issues = validateSignInOptions(options ?? {});
+          if (issues.length > 0) {
+            throw createErrorResponse(
+              GoogleAuthErrorCodes.INVALID_CONFIG,
+              `Invalid sign-in options: ${issues
+                .map((issue) => `${issue.field}: ${issue.message}`)
+                .join('; ')}`,
+              { issues }
+            );
+          }
+          warnDeprecatedScopes(options?.scopes);
+          resolved = resolveSignInOptions(options);
+        } catch (error) {
+          return handleError(
+            error,
+            'signIn',
+            GoogleAuthErrorCodes.SIGN_IN_ERROR
+          );
+        }
+
+        setPendingNonce(resolved.nonce ?? null);
+        let response: OneTapResponse;
+        try {
+          response = await NativeGoogleAuth.signIn(resolved);
+        } catch (error) {
+          setPendingNonce(null);
+          return handleError(
+            error,
+            'signIn',
+            GoogleAuthErrorCodes.SIGN_IN_ERROR
+          );
+        }
+
+        if (response.type !== 'success') {
+          setPendingNonce(null);
+          return response;
+        }
+
+        return acceptSignIn(response, 'signIn', (idToken) => {
+          consumePendingNonce(idToken);
+          assertDomainAllowed(idToken, {
+            ...getConfiguration(),
+            hostedDomain: resolved.hostedDomain,
+          });
+        });
+      },
+      (response) => ({ responseType: response.type })
+    ),
+
+  /**
+   * Restore a previous session without ever showing UI
+   * Resolves with noSavedCredentialFound when there is nothing to restore.
+   * Restored accounts outside hostedDomain, allowedDomains and allowedEmails
+   * are signed out and rejected with DOMAIN_NOT_ALLOWED
+   */
+  signInSilently: (): Promise<OneTapResponse> =>
+    instrument(
+      'signInSilently',
+      async () => {
+        let response: OneTapResponse;
+        try {
+          response = await NativeGoogleAuth.signInSilently();
+        } catch (error) {
+          return handleError(
+            error,
+            'signInSilently',
+            GoogleAuthErrorCodes.SIGN_IN_ERROR
+          );
+        }
+
+        if (response.type !== 'success') {
+          return response;
+        }
+        return acceptSignIn(response, 'signInSilently', (idToken) =>
+          assertDomainAllowed(idToken, getConfiguration())
+        );
+      },
+      (response) => ({ responseType: response.type })
+    ),
+
+  /**
+   * Whether a previous session can be restored with signInSilently
+   * Never shows UI or contacts Google
+   */
+  hasPreviousSignIn: async (): Promise<boolean> => {
+    try {
+      return await NativeGoogleAuth.hasPreviousSignIn();
+    } catch (error) {
+      return handleError(error, 'hasPreviousSignIn');
+    }
+  },
+
+  /**
+   * Sign out every account, or only options.userId
+   * Signing out the active account leaves no account active until
+   * switchAccount or signIn is called, even if other accounts remain
+   */
+  signOut: (options?: SignOutOptions): Promise<void> =>
+    instrument('signOut', async () => {
+      try {
+        await NativeGoogleAuth.signOut(options);
+      } catch (error) {
+        handleError(error, 'signOut', GoogleAuthErrorCodes.SIGN_OUT_ERROR);
+      }
+
+      const userId = options?.userId;
+      if (userId === undefined) {
+        clearAuthState();
+        setAuthAccounts([]);
+        return;
+      }
+      if (getAuthUser()?.userId === userId) {
+        clearAuthState();
+      }
+      removeAuthAccount(userId);
+    }),
+
+  /**
+   * Revoke the app's access for the active account and sign it out
+   * Use for "delete my account" flows. Resolves with status 'alreadyRevoked'
+   * when the grant no longer existed; other failures reject with REVOKE_ERROR
+   */
+  revokeAccess: (): Promise<RevokeAccessResponse> =>
+    instrument('revokeAccess', async () => {
+      const userId = getAuthUser()?.userId;
+      let response: RevokeAccessResponse;
+      try {
+        response = await revokeActiveAccount(userId);
+      } catch (error) {
+        return handleError(
+          error,
+          'revokeAccess',
+          GoogleAuthErrorCodes.REVOKE_ERROR
+        );
+      }
+
+      clearAuthState();
+      if (userId !== undefined) {
+        removeAuthAccount(userId);
+      }
+      return response;
+    }),
+
+  /**
+   * Get access and ID tokens for the active account, or for userId
+   * Tokens of other accounts are not published to onTokensChanged
+   */
+  getTokens: (userId?: string): Promise<GetTokensResponse> =>
+    instrument('getTokens', async () => {
+      try {
+        const tokens = await NativeGoogleAuth.getTokens(userId);
+        if (userId === undefined || userId === getAuthUser()?.userId) {
+          setAuthTokens(toAuthTokens(tokens));
+        }
+        return tokens;
+      } catch (error) {
+        return handleError(
+          error,
+          'getTokens',
+          GoogleAuthErrorCodes.GET_TOKENS_ERROR
+        );
+      }
+    }),
+
+  /**
+   * Refresh access and ID tokens for the current user
+   * Concurrent calls share a single native refresh
+   */
+  refreshTokens: (): Promise<RefreshTokensResponse> => {
+    if (!refreshInFlight) {
+      refreshInFlight = instrument('refreshTokens', async () => {
+        try {
+          const tokens = await NativeGoogleAuth.refreshTokens();
+          setAuthTokens(toAuthTokens(tokens));
+          return tokens;
+        } catch (error) {
+          return handleError(
+            error,
+            'refreshTokens',
+            GoogleAuthErrorCodes.TOKEN_REFRESH_ERROR
+          );
+        } finally {
+          refreshInFlight = null;
+        }
+      });
+    }
+    return refreshInFlight;
+  },
+
+  /**
+   * Get tokens that stay valid for at least minValiditySeconds.
+   * Returns the cached tokens when possible, otherwise performs a single
+   * refresh shared by all concurrent callers.
+   */
+  getFreshTokens: async ({
+    minValiditySeconds = 60,
+  }: GetFreshTokensOptions = {}): Promise<AuthTokens> => {
+    const cached = getAuthTokens();
+    if (
+      cached?.expiresAt !== undefined &&
+      cached.expiresAt - Date.now() > minValiditySeconds * 1000
+    ) {
+      return cached;
+    }
+
+    // refreshTokens already normalizes and logs its failures
+    return toAuthTokens(await GoogleAuth.refreshTokens());
+  },
+
+  /**
+   * Check if the current token is expired
+   */
+  isTokenExpired: async (): Promise<boolean> => {
+    try {
+      return await NativeGoogleAuth.isTokenExpired();
+    } catch (error) {
+      return handleError(
+        error,
+        'isTokenExpired',
+        GoogleAuthErrorCodes.TOKEN_ERROR
+      );
+    }
+  },
+
+  /**
+   * Get the server auth code from the most recent interactive sign-in
+   * Requires offlineAccess and webClientId in configure. Codes are single-use;
+   * exchange it on your backend for a refresh token. Null when none was issued.
+   */
+  getServerAuthCode: async (): Promise<string | null> => {
+    try {
+      return await NativeGoogleAuth.getServerAuthCode();
+    } catch (error) {
+      return handleError(error, 'getServerAuthCode');
+    }
+  },
+
+  /**
+   * Request additional OAuth scopes for the current user
+   * Only scopes that are not granted yet are requested from the user
+   */
+  addScopes: (
+    scopes: (GoogleAuthScopes | string)[]
+  ): Promise<AddScopesResult> =>
+    instrument('addScopes', async () => {
+      try {
+        const validation = validateScopes(scopes);
+        if (!validation.isValid) {
+          throw createErrorResponse(
+            (validation.errorCode as GoogleAuthErrorCode | undefined) ??
+              GoogleAuthErrorCodes.INVALID_CONFIG,
+            validation.errorMessage ?? 'Invalid scopes'
+          );
+        }
+        warnDeprecatedScopes(scopes);
+
+        const requested = Array.from(new Set<string>(scopes));
+        let granted = await NativeGoogleAuth.getGrantedScopes();
+        const missing = requested.filter((scope) => !granted.includes(scope));
+
+        if (missing.length > 0) {
+          const response = await NativeGoogleAuth.addScopes(missing);
+          granted = response.grantedScopes;
+
+          const current = getAuthTokens();
+          const idToken = response.idToken ?? current?.idToken;
+          if (idToken) {
+            setAuthTokens({
+              idToken,
+              accessToken: response.accessToken ?? current?.accessToken ?? null,
+              expiresAt: response.expiresAt ?? current?.expiresAt,
+            });
+          }
+        }
+
+        return {
+          grantedScopes: requested.filter((scope) => granted.includes(scope)),
+          deniedScopes: requested.filter((scope) => !granted.includes(scope)),
+        };
+      } catch (error) {
+        return handleError(
+          error,
+          'addScopes',
+          GoogleAuthErrorCodes.ADD_SCOPES_ERROR
+        );
+      }
+    }),
+
+  /**
+   * Get the OAuth scopes currently granted to the app
+   */
+  getGrantedScopes: async (): Promise<string[]> => {
+    try {
+      return await NativeGoogleAuth.getGrantedScopes();
+    } catch (error) {
+      return handleError(error, 'getGrantedScopes');
+    }
+  },
+
+  /**
+   * Get the current authenticated user
+   */
+  getCurrentUser: async (): Promise<User | null> => {
+    try {
+      const nativeUser = await NativeGoogleAuth.getCurrentUser();
+      const user =
+        nativeUser && withProfileClaims(nativeUser, getAuthTokens()?.idToken);
+      if (user) {
+        upsertAuthAccount(user);
+        setAuthUser(user);
+      } else {
+        clearAuthState();
+      }
+      return user;
+    } catch (error) {
+      return handleError(error, 'getCurrentUser');
+    }
+  },
+
+  /**
+   * Get every account signed in on this device
+   */
+  getAccounts: async (): Promise<User[]> => {
+    try {
+      const accounts = (await NativeGoogleAuth.getAccounts()).map((account) =>
+        withProfileClaims(account)
+      );
+      setAuthAccounts(accounts);
+      return accounts;
+    } catch (error) {
+      return handleError(error, 'getAccounts');
+    }
+  },
+
+  /**
+   * Make a signed-in account the active one, without showing any UI
+   * Rejects with ACCOUNT_NOT_FOUND when userId is not signed in
+   */
+  switchAccount: (userId: string): Promise<User> =>
+    instrument('switchAccount', async () => {
+      let user: User;
+      try {
+        user = withProfileClaims(await NativeGoogleAuth.switchAccount(userId));
+      } catch (error) {
+        return handleError(error, 'switchAccount');
+      }
+
+      // Drop the previous account's tokens before listeners see the new user
+      setAuthTokens(null);
+      upsertAuthAccount(user);
+      setAuthUser(user);
+
+      try {
+        setAuthTokens(toAuthTokens(await NativeGoogleAuth.getTokens(userId)));
+      } catch (error) {
+        // The switch succeeded; tokens are fetched again on the next getTokens
+        log.warn('switchAccount could not load tokens', error);
+      }
+      return user;
+    }),
+
+  /**
+   * Get a user's Google profile photo URL resized to size x size pixels
+   */
+  getProfilePhotoUrl,
+
+  /**
+   * Whether the native module is linked into this build
+   * When false, e.g. in Expo Go, every native call rejects with
+   * NATIVE_MODULE_NOT_FOUND
+   */
+  isAvailable: (): boolean => isNativeModuleAvailable(),
+
+  /**
+   * Check Google Play Services availability (Android only)
+   */
+  checkPlayServices: async (
+    showErrorDialog?: boolean
+  ): Promise<PlayServicesInfo> => {
+    try {
+      return await NativeGoogleAuth.checkPlayServices(showErrorDialog);
+    } catch (error) {
+      return handleError(
+        error,
+        'checkPlayServices',
+        GoogleAuthErrorCodes.PLAY_SERVICES_ERROR
+      );
+    }
+  },
+
+  /**
+   * Subscribe to changes of the signed-in user.
+   * Late subscribers immediately receive the current user once it is known.
+   * Returns a function that removes the listener.
+   */
+  onAuthStateChanged,
+
+  /**
+   * Subscribe to changes of the current tokens.
+   * Late subscribers immediately receive the current tokens once known.
+   * Returns a function that removes the listener.
+   */
+  onTokensChanged,
+
+  /**
+   * Subscribe to changes of the signed-in accounts.
+   * Late subscribers immediately receive the accounts once known.
+   * Returns a function that removes the listener.
+   */
+  onAccountsChanged,
+
+  /**
+   * Start refreshing tokens automatically ahead of their expiry.
+   * Replaces any scheduler started earlier.
+   */
+  startAutoRefresh: (options?: AutoRefreshOptions): void => {
+    autoRefresh?.stop();
+    autoRefresh = createAutoRefresh(
+      async () => toAuthTokens(await GoogleAuth.refreshTokens()),
+      options
+    );
+  },
+
+  /**
+   * Persist the session with store, e.g. a keychain or MMKV wrapper, and
+   * restore the session saved in it. Pass null to keep it in memory only.
+   * Await it at startup so getCachedSession returns the saved session.
+   */
+  setTokenStore,
+
+  /**
+   * The last known user and tokens, read synchronously, or null
+   * Tokens may be expired; use getFreshTokens before calling Google APIs.
+   */
+  getCachedSession,
+
+  /**
+   * Register a plugin that receives auth lifecycle events
+   * (operation, phase, duration, platform, response type, error code).
+   * Events contain no personal data. Returns a function that removes the plugin.
+   */
+  use,
+
+  /**
+   * Route library logs to a custom logger, or pass null to disable them.
+   * Logs go to the console in development and nowhere in production by default.
+   * Tokens, emails and client IDs are redacted before reaching the logger.
+   */
+  setLogger,
+
+  /**
+   * Change the minimum level forwarded to the current logger
+   */
+  setLogLevel,
+
+  /**
+   * Stop the automatic token refresh started with startAutoRefresh
+   */
+  stopAutoRefresh: (): void => {
+    autoRefresh?.stop();
+    autoRefresh = null;
+  },
+};
@@ -0,0 +1,330 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { ReactNode } from 'react';
+import type {
+  ConfigureParams,
+  User,
+  OneTapResponse,
+  RefreshTokensResponse,
+  SignInOptions,
+  SignOutOptions,
+} from './NativeGoogleAuth';
+import { getAuthUser } from './authState';
+import type { AuthTokens } from './authState';
+import {
+  GoogleAuthError,
+  GoogleAuthErrorCodes,
+  createErrorResponse,
+  normalizeError,
+} from './errors';
+import { GoogleAuth } from './GoogleAuth';
+
+/**
+ * Lifecycle status exposed by the React integration
+ */
+export type GoogleAuthStatus =
+  | 'idle'
+  | 'signingIn'
+  | 'signedIn'
+  | 'signedOut'
+  | 'error';
+
+export interface GoogleAuthContextValue {
+  /** Active account, or null when signed out or not yet known */
+  user: User | null;
+  /** Every account signed in on this device */
+  accounts: User[];
+  /** Last known tokens, or null when signed out or not yet fetched */
+  tokens: AuthTokens | null;
+  /** Whether the current tokens are missing or past their expiry */
+  isExpired: boolean;
+  /** Current lifecycle status */
+  status: GoogleAuthStatus;
+  /** Last error raised by configure or an action, cleared on the next action */
+  error: GoogleAuthError | null;
+  /** Whether GoogleAuth.configure has completed */
+  isConfigured: boolean;
+  /** Sign in; resolves null when the attempt failed (see `error`) */
+  signIn: (options?: SignInOptions) => Promise<OneTapResponse | null>;
+  /** Sign out every account, or only options.userId; failures are reported through `error` */
+  signOut: (options?: SignOutOptions) => Promise<void>;
+  /** Make another signed-in account active; resolves null when it failed (see `error`) */
+  switchAccount: (userId: string) => Promise<User | null>;
+  /** Refresh tokens; resolves null when the refresh failed (see `error`) */
+  refresh: () => Promise<RefreshTokensResponse | null>;
+}
+
+export interface GoogleAuthProviderProps {
+  /**
+   * Configuration passed to GoogleAuth.configure on mount.
+   * Only the first value is used; later changes are ignored.
+   */
+  config: ConfigureParams;
+  children?: ReactNode;
+}
+
+const MAX_TIMEOUT_MS = 2147483647;
+
+const GoogleAuthContext = createContext<GoogleAuthContextValue | null>(null);
+
+const computeIsExpired = (tokens: AuthTokens | null): boolean => {
+  if (!tokens) {
+    return true;
+  }
+  if (tokens.expiresAt === undefined) {
+    return false;
+  }
+  return Date.now() >= tokens.expiresAt;
+};
+
+/**
+ * Configures GoogleAuth once and shares auth state with descendants
+ */
+export function GoogleAuthProvider({
+  config,
+  children,
+}: GoogleAuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [accounts, setAccounts] = useState<User[]>([]);
+  const [tokens, setTokens] = useState<AuthTokens | null>(null);
+  const [isExpired, setIsExpired] = useState(true);
+  const [status, setStatus] = useState<GoogleAuthStatus>('idle');
+  const [error, setError] = useState<GoogleAuthError | null>(null);
+  const [isConfigured, setIsConfigured] = useState(false);
+
+  const configRef = useRef(config);
+  const configureStarted = useRef(false);
+
+  useEffect(() => {
+    // Guards against double invocation of effects in StrictMode
+    if (configureStarted.current) {
+      return;
+    }
+    configureStarted.current = true;
+
+    GoogleAuth.configure(configRef.current)
+      .then(() => {
+        setIsConfigured(true);
+        return GoogleAuth.getCurrentUser();
+      })
+      .then((currentUser) => {
+        setStatus((prev) =>
+          prev === 'signingIn' ? prev : currentUser ? 'signedIn' : 'signedOut'
+        );
+        // Failures are logged by GoogleAuth and must not fail configuration
+        GoogleAuth.getAccounts().catch(() => {});
+      })
+      .catch((configureError) => {
+        setError(
+          normalizeError(
+            configureError,
+            'configure',
+            GoogleAuthErrorCodes.CONFIG_ERROR
+          )
+        );
+        setStatus('error');
+      });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeUser = GoogleAuth.onAuthStateChanged((nextUser) => {
+      setUser(nextUser);
+      setStatus((prev) => {
+        if (prev === 'signingIn') {
+          return prev;
+        }
+        return nextUser ? 'signedIn' : 'signedOut';
+      });
+    });
+    const unsubscribeTokens = GoogleAuth.onTokensChanged(setTokens);
+    const unsubscribeAccounts = GoogleAuth.onAccountsChanged(setAccounts);
+
+    return () => {
+      unsubscribeUser();
+      unsubscribeTokens();
+      unsubscribeAccounts();
+    };
+  }, []);
+
+  useEffect(() => {
+    const expired = computeIsExpired(tokens);
+    setIsExpired(expired);
+
+    const expiresAt = tokens?.expiresAt;
+    if (expired || expiresAt === undefined) {
+      return undefined;
+    }
+
+    // Flip to expired exactly when the token lapses. Delays above the max timer
+    // delay take several timers, each re-armed for the remaining time.
+    let timer: ReturnType<typeof setTimeout>;
+    const arm = () => {
+      const remaining = expiresAt - Date.now();
+      if (remaining <= 0) {
+        setIsExpired(true);
+        return;
+      }
+      timer = setTimeout(arm, Math.min(remaining, MAX_TIMEOUT_MS));
+    };
+    arm();
+    return () => clearTimeout(timer);
+  }, [tokens]);
+
+  const signIn = useCallback(
+    async (options?: SignInOptions): Promise<OneTapResponse | null> => {
+      setError(null);
+      setStatus('signingIn');
+      try {
+        const response = await GoogleAuth.signIn(options);
+        // Cancelling keeps whatever session existed before the attempt
+        setStatus(
+          response.type === 'success' || getAuthUser()
+            ? 'signedIn'
+            : 'signedOut'
+        );
+        return response;
+      } catch (signInError) {
+        setError(
+          normalizeError(
+            signInError,
+            'signIn',
+            GoogleAuthErrorCodes.SIGN_IN_ERROR
+          )
+        );
+        setStatus('error');
+        return null;
+      }
+    },
+    []
+  );
+
+  const signOut = useCallback(
+    async (options?: SignOutOptions): Promise<void> => {
+      setError(null);
+      try {
+        await GoogleAuth.signOut(options);
+        // Signing out another account keeps the active one signed in
+        setStatus(getAuthUser() ? 'signedIn' : 'signedOut');
+      } catch (signOutError) {
+        setError(
+          normalizeError(
+            signOutError,
+            'signOut',
+            GoogleAuthErrorCodes.SIGN_OUT_ERROR
+          )
+        );
+        setStatus('error');
+      }
+    },
+    []
+  );
+
+  const switchAccount = useCallback(
+    async (userId: string): Promise<User | null> => {
+      setError(null);
+      try {
+        return await GoogleAuth.switchAccount(userId);
+      } catch (switchError) {
+        setError(normalizeError(switchError, 'switchAccount'));
+        return null;
+      }
+    },
+    []
+  );
+
+  const refresh =
+    useCallback(async (): Promise<RefreshTokensResponse | null> => {
+      setError(null);
+      try {
+        return await GoogleAuth.refreshTokens();
+      } catch (refreshError) {
+        setError(
+          normalizeError(
+            refreshError,
+            'refreshTokens',
+            GoogleAuthErrorCodes.REFRESH_ERROR
+          )
+        );
+        setStatus('error');
+        return null;
+      }
+    }, []);
+
+  const value = useMemo<GoogleAuthContextValue>(
+    () => ({
+      user,
+      accounts,
+      tokens,
+      isExpired,
+      status,
+      error,
+      isConfigured,
+      signIn,
+      signOut,
+      switchAccount,
+      refresh,
+    }),
+    [
+      user,
+      accounts,
+      tokens,
+      isExpired,
+      status,
+      error,
+      isConfigured,
+      signIn,
+      signOut,
+      switchAccount,
+      refresh,
+    ]
+  );
+
+  return (
+    <GoogleAuthContext.Provider value={value}>
+      {children}
+    </GoogleAuthContext.Provider>
+  );
+}
+
+/**
+ * Access the full auth state and actions from the nearest GoogleAuthProvider
+ */
+export function useGoogleAuth(): GoogleAuthContextValue {
+  const context = useContext(GoogleAuthContext);
+  if (!context) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.NOT_CONFIGURED,
+      'useGoogleAuth must be used within a GoogleAuthProvider'
+    );
+  }
+  return context;
+}
+
+/**
+ * Access the signed-in user from the nearest GoogleAuthProvider
+ */
+export function useGoogleUser(): Pick<
+  GoogleAuthContextValue,
+  'user' | 'status'
+> {
+  const { user, status } = useGoogleAuth();
+  return { user, status };
+}
+
+/**
+ * Access the current tokens from the nearest GoogleAuthProvider
+ */
+export function useGoogleTokens(): Pick<
+  GoogleAuthContextValue,
+  'tokens' | 'isExpired' | 'refresh'
+> {
+  const { tokens, isExpired, refresh } = useGoogleAuth();
+  return { tokens, isExpired, refresh };
+}
@@ -0,0 +1,437 @@
+import type {
+  AddScopesResponse,
+  ConfigureParams,
+  GetTokensResponse,
+  OneTapResponse,
+  PlayServicesInfo,
+  RefreshTokensResponse,
+  RevokeAccessResponse,
+  SignInOptions,
+  SignOutOptions,
+  Spec,
+  User,
+} from './NativeGoogleAuth';
+import { bytesToBase64Url, utf8Encode } from './base64';
+import { GoogleAuthErrorCodes, createNativeError } from './errors';
+import type { GoogleAuthErrorCode } from './errors';
+
+/**
+ * Native methods whose failures can be injected
+ */
+export type MockMethod = Exclude<keyof Spec, 'getConstants'>;
+
+/**
+ * Result returned by the next mocked signIn call
+ */
+export type MockSignInResult = OneTapResponse['type'];
+
+export interface MockTokens {
+  idToken: string;
+  accessToken: string | null;
+  expiresAt: number;
+}
+
+interface MockAccount {
+  user: User;
+  tokens: MockTokens;
+  grantedScopes: string[];
+}
+
+interface InjectedError {
+  code: GoogleAuthErrorCode;
+  message: string;
+  once: boolean;
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * User returned by the mock unless another one is provided
+ */
+export const MOCK_USER: User = {
+  id: '000000000000000000001',
+  userId: '000000000000000000001',
+  name: 'Test User',
+  email: 'test.user@example.com',
+  photo: null,
+  familyName: 'User',
+  givenName: 'Test',
+  emailVerified: true,
+  hostedDomain: null,
+  locale: 'en',
+};
+
+// Unsigned JWT that decodeIdToken and nonce validation can read
+const createMockIdToken = (
+  user: User,
+  expiresAt: number,
+  nonce?: string
+): string => {
+  const encode = (value: object) =>
+    bytesToBase64Url(utf8Encode(JSON.stringify(value)));
+  const claims = {
+    iss: 'https://accounts.google.com',
+    aud: 'mock-client-id.apps.googleusercontent.com',
+    sub: user.userId,
+    email: user.email,
+    email_verified: user.emailVerified ?? undefined,
+    hd: user.hostedDomain ?? undefined,
+    locale: user.locale ?? undefined,
+    name: user.name ?? undefined,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt / 1000),
+    nonce,
+  };
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+};
+
+/**
+ * Programmable pure-JS implementation of the native module
+ * Simulates configuration, sign-in state, token expiry, cancellation and
+ * injected errors so GoogleAuth can be exercised without native code.
+ */
+export class MockGoogleAuth implements Spec {
+  private configured = false;
+  private accounts = new Map<string, MockAccount>();
+  private activeUserId: string | null = null;
+  private serverAuthCode: string | null = null;
+  private nextSignInResult: MockSignInResult = 'success';
+  private errors = new Map<MockMethod, InjectedError>();
+
+  /** Arguments of every native call, in order */
+  public readonly calls: { method: MockMethod; args: unknown[] }[] = [];
+
+  /**
+   * Restores the initial state: not configured, signed out, no injected errors
+   */
+  reset(): void {
+    this.configured = false;
+    this.accounts.clear();
+    this.activeUserId = null;
+    this.serverAuthCode = null;
+    this.nextSignInResult = 'success';
+    this.errors.clear();
+    this.calls.length = 0;
+  }
+
+  /**
+   * Marks the module as configured without calling configure
+   */
+  setConfigured(configured = true): void {
+    this.configured = configured;
+  }
+
+  /**
+   * Signs in an account and makes it the active one
+   * Call repeatedly with different userIds to simulate several accounts.
+   * @param user Fields to override on MOCK_USER
+   * @param tokens Token values to override
+   */
+  setSignedIn(
+    user: Partial<User> = {},
+    tokens: Partial<MockTokens> = {}
+  ): void {
+    this.configured = true;
+    const account = { ...MOCK_USER, ...user };
+    const expiresAt = tokens.expiresAt ?? Date.now() + TOKEN_LIFETIME_MS;
+    this.accounts.set(account.userId, {
+      user: account,
+      tokens: {
+        idToken: tokens.idToken ?? createMockIdToken(account, expiresAt),
+        accessToken:
+          tokens.accessToken === undefined
+            ? 'mock-access-token'
+            : tokens.accessToken,
+        expiresAt,
+      },
+      grantedScopes: [...DEFAULT_SCOPES],
+    });
+    this.activeUserId = account.userId;
+  }
+
+  /**
+   * Signs out every account
+   */
+  setSignedOut(): void {
+    this.accounts.clear();
+    this.activeUserId = null;
+    this.serverAuthCode = null;
+  }
+
+  /**
+   * Moves the active account's token expiry into the past (or back into the future)
+   */
+  setTokensExpired(expired = true): void {
+    const tokens = this.activeAccount()?.tokens;
+    if (tokens) {
+      tokens.expiresAt = expired
+        ? Date.now() - 1000
+        : Date.now() + TOKEN_LIFETIME_MS;
+    }
+  }
+
+  /**
+   * Chooses what the next signIn resolves with
+   * 'cancelled' and 'noSavedCredentialFound' leave the current session unchanged
+   */
+  setNextSignInResult(result: MockSignInResult): void {
+    this.nextSignInResult = result;
+  }
+
+  /**
+   * Sets the server auth code returned by signIn and getServerAuthCode
+   */
+  setServerAuthCode(code: string | null): void {
+    this.serverAuthCode = code;
+  }
+
+  /**
+   * Makes the next call to method reject with a native-style error
+   */
+  failNext(
+    method: MockMethod,
+    code: GoogleAuthErrorCode,
+    message = `Mock ${method} failure`
+  ): void {
+    this.errors.set(method, { code, message, once: true });
+  }
+
+  /**
+   * Makes every call to method reject until cleared with null
+   */
+  setError(
+    method: MockMethod,
+    code: GoogleAuthErrorCode | null,
+    message = `Mock ${method} failure`
+  ): void {
+    if (code === null) {
+      this.errors.delete(method);
+    } else {
+      this.errors.set(method, { code, message, once: false });
+    }
+  }
+
+  /**
+   * Active account's user, if any
+   */
+  getUser(): User | null {
+    return this.activeAccount()?.user ?? null;
+  }
+
+  private activeAccount(): MockAccount | null {
+    return this.activeUserId === null
+      ? null
+      : (this.accounts.get(this.activeUserId) ?? null);
+  }
+
+  // Records the call and throws an injected error, if any
+  private enter(method: MockMethod, args: unknown[]): void {
+    this.calls.push({ method, args });
+    const injected = this.errors.get(method);
+    if (injected) {
+      if (injected.once) {
+        this.errors.delete(method);
+      }
+      throw createNativeError(injected.code, injected.message);
+    }
+  }
+
+  private requireConfigured(method: MockMethod): void {
+    if (!this.configured) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.NOT_CONFIGURED,
+        `GoogleAuth must be configured before calling ${method}`
+      );
+    }
+  }
+
+  private requireSession(): MockAccount {
+    const account = this.activeAccount();
+    if (!account) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.NOT_SIGNED_IN,
+        'No user is currently signed in'
+      );
+    }
+    return account;
+  }
+
+  private requireAccount(userId: string): MockAccount {
+    const account = this.accounts.get(userId);
+    if (!account) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.ACCOUNT_NOT_FOUND,
+        `No signed-in account with userId ${userId}`
+      );
+    }
+    return account;
+  }
+
+  async configure(params: ConfigureParams): Promise<void> {
+    this.enter('configure', [params]);
+    this.configured = true;
+  }
+
+  async signIn(options?: SignInOptions): Promise<OneTapResponse> {
+    this.enter('signIn', [options]);
+    this.requireConfigured('signIn');
+
+    const result = this.nextSignInResult;
+    this.nextSignInResult = 'success';
+    if (result !== 'success') {
+      return { type: result };
+    }
+    // Silent sign-in can only restore an existing session
+    if (options?.mode === 'silent' && !this.activeAccount()) {
+      return { type: 'noSavedCredentialFound' };
+    }
+
+    this.setSignedIn(this.getUser() ?? {});
+    const account = this.requireSession();
+    account.grantedScopes = Array.from(
+      new Set([...account.grantedScopes, ...(options?.scopes ?? [])])
+    );
+    const { user, tokens, grantedScopes } = account;
+    // A nonce must be echoed in the ID token, as Google does
+    if (options?.nonce) {
+      tokens.idToken = createMockIdToken(user, tokens.expiresAt, options.nonce);
+    }
+
+    return {
+      type: 'success',
+      data: {
+        idToken: tokens.idToken,
+        accessToken: tokens.accessToken,
+        serverAuthCode: this.serverAuthCode,
+        scopes: [...grantedScopes],
+        user: { ...user },
+      },
+    };
+  }
+
+  async signInSilently(): Promise<OneTapResponse> {
+    this.enter('signInSilently', []);
+    this.requireConfigured('signInSilently');
+    const account = this.activeAccount();
+    if (!account) {
+      return { type: 'noSavedCredentialFound' };
+    }
+
+    const { user, tokens, grantedScopes } = account;
+    return {
+      type: 'success',
+      data: {
+        idToken: tokens.idToken,
+        accessToken: tokens.accessToken,
+        serverAuthCode: null,
+        scopes: [...grantedScopes],
+        user: { ...user },
+      },
+    };
+  }
+
+  async hasPreviousSignIn(): Promise<boolean> {
+    this.enter('hasPreviousSignIn', []);
+    return this.activeAccount() !== null;
+  }
+
+  async signOut(options?: SignOutOptions): Promise<void> {
+    this.enter('signOut', [options]);
+    const userId = options?.userId;
+    if (userId === undefined) {
+      this.setSignedOut();
+      return;
+    }
+    this.accounts.delete(userId);
+    if (this.activeUserId === userId) {
+      this.activeUserId = null;
+    }
+  }
+
+  async revokeAccess(): Promise<RevokeAccessResponse> {
+    this.enter('revokeAccess', []);
+    this.requireConfigured('revokeAccess');
+    const { user } = this.requireSession();
+    this.accounts.delete(user.userId);
+    this.activeUserId = null;
+    return { status: 'revoked' };
+  }
+
+  async getTokens(userId?: string): Promise<GetTokensResponse> {
+    this.enter('getTokens', [userId]);
+    this.requireConfigured('getTokens');
+    const { tokens } =
+      userId === undefined
+        ? this.requireSession()
+        : this.requireAccount(userId);
+    return { ...tokens };
+  }
+
+  async refreshTokens(): Promise<RefreshTokensResponse> {
+    this.enter('refreshTokens', []);
+    this.requireConfigured('refreshTokens');
+    const { user, tokens } = this.requireSession();
+    tokens.expiresAt = Date.now() + TOKEN_LIFETIME_MS;
+    tokens.idToken = createMockIdToken(user, tokens.expiresAt);
+    return { ...tokens };
+  }
+
+  async isTokenExpired(): Promise<boolean> {
+    this.enter('isTokenExpired', []);
+    const tokens = this.activeAccount()?.tokens;
+    return !tokens || tokens.expiresAt <= Date.now();
+  }
+
+  async getServerAuthCode(): Promise<string | null> {
+    this.enter('getServerAuthCode', []);
+    return this.serverAuthCode;
+  }
+
+  async addScopes(scopes: string[]): Promise<AddScopesResponse> {
+    this.enter('addScopes', [scopes]);
+    this.requireConfigured('addScopes');
+    const account = this.requireSession();
+    account.grantedScopes = Array.from(
+      new Set([...account.grantedScopes, ...scopes])
+    );
+    const { tokens } = account;
+    return {
+      grantedScopes: [...account.grantedScopes],
+      accessToken: tokens.accessToken,
+      idToken: tokens.idToken,
+      expiresAt: tokens.expiresAt,
+    };
+  }
+
+  async getGrantedScopes(): Promise<string[]> {
+    this.enter('getGrantedScopes', []);
+    return [...(this.activeAccount()?.grantedScopes ?? [])];
+  }
+
+  async getCurrentUser(): Promise<User | null> {
+    this.enter('getCurrentUser', []);
+    const user = this.getUser();
+    return user ? { ...user } : null;
+  }
+
+  async getAccounts(): Promise<User[]> {
+    this.enter('getAccounts', []);
+    return Array.from(this.accounts.values(), ({ user }) => ({ ...user }));
+  }
+
+  async switchAccount(userId: string): Promise<User> {
+    this.enter('switchAccount', [userId]);
+    this.requireConfigured('switchAccount');
+    const { user } = this.requireAccount(userId);
+    this.activeUserId = userId;
+    return { ...user };
+  }
+
+  async checkPlayServices(
+    showErrorDialog?: boolean
+  ): Promise<PlayServicesInfo> {
+    this.enter('checkPlayServices', [showErrorDialog]);
+    return { isAvailable: true };
+  }
+}
@@ -1,50 +1,6 @@
 import type { TurboModule } from 'react-native';
 import { TurboModuleRegistry } from 'react-native';
-
-/**
- * Predefined OAuth 2.0 scopes for Google APIs
- * Use these constants for type safety and better developer experience
- */
-export enum GoogleAuthScopes {
-  // OpenID Connect scopes
-  OPENID = 'openid',
-  EMAIL = 'email',
-  PROFILE = 'profile',
-
-  // Google API scopes
-  DRIVE = 'https://www.googleapis.com/auth/drive',
-  DRIVE_FILE = 'https://www.googleapis.com/auth/drive.file',
-  DRIVE_READONLY = 'https://www.googleapis.com/auth/drive.readonly',
-  GMAIL_READONLY = 'https://www.googleapis.com/auth/gmail.readonly',
-  GMAIL_MODIFY = 'https://www.googleapis.com/auth/gmail.modify',
-  GMAIL_COMPOSE = 'https://www.googleapis.com/auth/gmail.compose',
-  CALENDAR = 'https://www.googleapis.com/auth/calendar',
-  CALENDAR_READONLY = 'https://www.googleapis.com/auth/calendar.readonly',
-  CONTACTS = 'https://www.googleapis.com/auth/contacts',
-  CONTACTS_READONLY = 'https://www.googleapis.com/auth/contacts.readonly',
-  YOUTUBE = 'https://www.googleapis.com/auth/youtube',
-  YOUTUBE_READONLY = 'https://www.googleapis.com/auth/youtube.readonly',
-  PHOTOS = 'https://www.googleapis.com/auth/photoslibrary',
-  PHOTOS_READONLY = 'https://www.googleapis.com/auth/photoslibrary.readonly',
-  SPREADSHEETS = 'https://www.googleapis.com/auth/spreadsheets',
-  SPREADSHEETS_READONLY = 'https://www.googleapis.com/auth/spreadsheets.readonly',
-  DOCUMENTS = 'https://www.googleapis.com/auth/documents',
-  DOCUMENTS_READONLY = 'https://www.googleapis.com/auth/documents.readonly',
-  PRESENTATIONS = 'https://www.googleapis.com/auth/presentations',
-  PRESENTATIONS_READONLY = 'https://www.googleapis.com/auth/presentations.readonly',
-  CLOUD_PLATFORM = 'https://www.googleapis.com/auth/cloud-platform',
-  CLOUD_PLATFORM_READONLY = 'https://www.googleapis.com/auth/cloud-platform.read-only',
-  USERINFO_EMAIL = 'https://www.googleapis.com/auth/userinfo.email',
-  USERINFO_PROFILE = 'https://www.googleapis.com/auth/userinfo.profile',
-  PLUS_ME = 'https://www.googleapis.com/auth/plus.me',
-  ANALYTICS = 'https://www.googleapis.com/auth/analytics',
-  ANALYTICS_READONLY = 'https://www.googleapis.com/auth/analytics.readonly',
-  ADWORDS = 'https://www.googleapis.com/auth/adwords',
-  BLOGGER = 'https://www.googleapis.com/auth/blogger',
-  FITNESS_ACTIVITY_READ = 'https://www.googleapis.com/auth/fitness.activity.read',
-  FITNESS_BODY_READ = 'https://www.googleapis.com/auth/fitness.body.read',
-  FITNESS_LOCATION_READ = 'https://www.googleapis.com/auth/fitness.location.read',
-}
+import type { GoogleAuthScopes } from './scopes';
 
 export interface ConfigureParams {
   /**
@@ -75,26 +31,41 @@ export interface ConfigureParams {
   scopes?: (GoogleAuthScopes | string)[];
 
   /**
-   * G Suite hosted domain for domain-restricted sign-in
-   * Only users from this domain will be allowed to sign in
+   * Google Workspace hosted domain for domain-restricted sign-in
+   * Passed to the native account pickers as a hint, and enforced in JS after
+   * sign-in against the ID token's hd claim
    */
   hostedDomain?: string;
 
+  /**
+   * Additional Google Workspace domains allowed to sign in
+   * Enforced in JS together with hostedDomain
+   */
+  allowedDomains?: string[];
+
+  /**
+   * Email addresses allowed to sign in, where '*' matches any characters
+   * e.g. ['*@partner.com', 'contractor@gmail.com']. Only verified emails match.
+   */
+  allowedEmails?: string[];
+
   /**
    * Request offline access (refresh token)
-   * Enables token refresh without user interaction
+   * Returns a serverAuthCode from signIn for your backend to exchange
+   * Requires webClientId
    */
   offlineAccess?: boolean;
 
   /**
    * Force authorization code for refresh token
+   * Makes Google issue a new refresh token on every code exchange
    * Android-specific parameter
    */
   forceCodeForRefreshToken?: boolean;
 
   /**
    * Account name hint for sign-in
-   * Android-specific parameter
+   * Sent as the login hint on iOS and web; not supported by Android's Credential Manager
    */
   accountName?: string;
 
@@ -115,28 +86,83 @@ export interface ConfigureParams {
    * When true, skips silent sign-in and always shows the account selection UI
    * Useful when you want users to explicitly choose between multiple Google accounts
    * Default: false
-   * @platform iOS
    */
   forceAccountPicker?: boolean;
 
   /**
-   * Android Credential Manager behavior mode
+   * Sign-in behavior mode, named after Android's Credential Manager
    * - 'silent': Only show existing authorized accounts, no UI interaction
    * - 'interactive': Always display the Google account picker UI
    * - 'auto': Try silent sign-in first, fallback to interactive if needed (default)
    * Default: 'auto'
-   * @platform Android
    */
   credentialManagerMode?: 'silent' | 'interactive' | 'auto';
 }
 
+export interface SignInOptions {
+  /**
+   * Nonce to embed in the returned ID token's nonce claim
+   * Lets your backend bind the ID token to this sign-in attempt
+   * Use generateNonce or generateHashedNonce to create one
+   */
+  nonce?: string;
+
+  /**
+   * Sign-in behavior for this call, overriding credentialManagerMode
+   * - 'silent': Only restore a previously authorized account, no UI
+   * - 'interactive': Always show the Google account picker
+   * - 'auto': Try silent sign-in first, fall back to interactive
+   */
+  mode?: 'silent' | 'interactive' | 'auto';
+
+  /**
+   * Email address to preselect in the account picker, overriding accountName
+   */
+  loginHint?: string;
+
+  /**
+   * Skip silent sign-in and always show the account picker, overriding
+   * forceAccountPicker
+   */
+  forceAccountPicker?: boolean;
+
+  /**
+   * Google Workspace domain to filter accounts by, overriding hostedDomain
+   */
+  hostedDomain?: string;
+
+  /**
+   * Scopes to request in addition to the configured ones
+   */
+  scopes?: string[];
+}
+
+export interface SignOutOptions {
+  /**
+   * Account to sign out, from User.userId
+   * Other accounts stay signed in. When omitted, every account is signed out.
+   */
+  userId?: string;
+}
+
 export interface User {
   id: string;
+  /**
+   * Stable account identifier (the ID token's sub claim)
+   * Identical on every platform; use it with switchAccount, signOut and getTokens
+   */
+  userId: string;
   name: string | null;
   email: string;
   photo: string | null;
   familyName: string | null;
   givenName: string | null;
+  /** Whether Google has verified the email address; null when unknown */
+  emailVerified: boolean | null;
+  /** Google Workspace domain of the account; null for consumer accounts */
+  hostedDomain: string | null;
+  /** Preferred locale, e.g. 'en-GB'; null when Google does not provide one */
+  locale: string | null;
 }
 
 export interface SignInResponse {
@@ -144,6 +170,13 @@ export interface SignInResponse {
   data: {
     idToken: string;
     accessToken: string | null;
+    /**
+     * One-time code for your backend to exchange for a refresh token
+     * Present only when offlineAccess is enabled; null on restored sessions
+     */
+    serverAuthCode: string | null;
+    /** Scopes granted to the app */
+    scopes: string[];
     user: User;
   };
 }
@@ -173,6 +206,24 @@ export interface RefreshTokensResponse {
   expiresAt?: number;
 }
 
+export interface AddScopesResponse {
+  /** Every scope granted to the app after the request, not only the new ones */
+  grantedScopes: string[];
+  /** Access token covering the granted scopes, if the platform provides one */
+  accessToken: string | null;
+  /** Updated ID token, if the platform provides one */
+  idToken: string | null;
+  expiresAt?: number;
+}
+
+export interface RevokeAccessResponse {
+  /**
+   * 'revoked' when the grant was removed now, 'alreadyRevoked' when Google
+   * no longer knew it (e.g. the user removed the app in their account settings)
+   */
+  status: 'revoked' | 'alreadyRevoked';
+}
+
 export interface PlayServicesInfo {
   isAvailable: boolean;
   status?: number;
@@ -183,23 +234,36 @@ export interface Spec extends TurboModule {
   configure(params: ConfigureParams): Promise<void>;
 
   // Sign-in methods
-  signIn(): Promise<OneTapResponse>;
+  signIn(options?: SignInOptions): Promise<OneTapResponse>;
+  signInSilently(): Promise<OneTapResponse>;
+  hasPreviousSignIn(): Promise<boolean>;
 
   // Sign-out
-  signOut(): Promise<void>;
+  signOut(options?: SignOutOptions): Promise<void>;
+  revokeAccess(): Promise<RevokeAccessResponse>;
 
   // Token management
-  getTokens(): Promise<GetTokensResponse>;
+  getTokens(userId?: string): Promise<GetTokensResponse>;
   refreshTokens(): Promise<RefreshTokensResponse>;
   isTokenExpired(): Promise<boolean>;
+  getServerAuthCode(): Promise<string | null>;
+
+  // Incremental authorization
+  addScopes(scopes: string[]): Promise<AddScopesResponse>;
+  getGrantedScopes(): Promise<string[]>;
 
   // Profile management
   getCurrentUser(): Promise<User | null>;
 
+  // Multiple accounts
+  getAccounts(): Promise<User[]>;
+  switchAccount(userId: string): Promise<User>;
+
   // Utility methods
   checkPlayServices(showErrorDialog?: boolean): Promise<PlayServicesInfo>;
 
   // Legacy method for testing
 }
 
-export default TurboModuleRegistry.getEnforcing<Spec>('GoogleAuth');
+// null when the native module is not linked; see nativeModule.ts
+export default TurboModuleRegistry.get<Spec>('GoogleAuth');
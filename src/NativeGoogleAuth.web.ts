@@ -0,0 +1,673 @@
+import type {
+  AddScopesResponse,
+  ConfigureParams,
+  GetTokensResponse,
+  OneTapResponse,
+  PlayServicesInfo,
+  RefreshTokensResponse,
+  RevokeAccessResponse,
+  SignInOptions,
+  SignOutOptions,
+  Spec,
+  User,
+} from './NativeGoogleAuth';
+import { GoogleAuthErrorCodes, createNativeError } from './errors';
+import { decodeIdToken } from './idToken';
+import type { IdTokenClaims } from './idToken';
+import { toEmailVerified } from './profile';
+
+/**
+ * Response passed to the google.accounts.id callback
+ */
+export interface GisCredentialResponse {
+  /** The ID token */
+  credential?: string;
+}
+
+/**
+ * One Tap / FedCM prompt status passed to google.accounts.id.prompt
+ */
+export interface GisPromptMoment {
+  isNotDisplayed?(): boolean;
+  isSkippedMoment?(): boolean;
+  getSkippedReason?(): string;
+  isDismissedMoment?(): boolean;
+  getDismissedReason?(): string;
+}
+
+export interface GisIdConfiguration {
+  client_id: string;
+  callback: (response: GisCredentialResponse) => void;
+  nonce?: string;
+  hd?: string;
+  login_hint?: string;
+  auto_select?: boolean;
+  cancel_on_tap_outside?: boolean;
+  use_fedcm_for_prompt?: boolean;
+}
+
+/**
+ * Response passed to a token client callback
+ */
+export interface GisTokenResponse {
+  access_token?: string;
+  /** Lifetime in seconds */
+  expires_in?: number | string;
+  /** Space-separated granted scopes */
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Response passed to a code client callback
+ */
+export interface GisCodeResponse {
+  code?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Popup failure passed to error_callback, e.g. { type: 'popup_closed' }
+ */
+export interface GisClientError {
+  type: string;
+  message?: string;
+}
+
+export interface GisTokenClientConfig {
+  client_id: string;
+  scope: string;
+  callback: (response: GisTokenResponse) => void;
+  error_callback?: (error: GisClientError) => void;
+  hint?: string;
+  hosted_domain?: string;
+  include_granted_scopes?: boolean;
+}
+
+export interface GisCodeClientConfig {
+  client_id: string;
+  scope: string;
+  ux_mode: 'popup';
+  callback: (response: GisCodeResponse) => void;
+  error_callback?: (error: GisClientError) => void;
+  hint?: string;
+  hosted_domain?: string;
+}
+
+export interface GisTokenClient {
+  requestAccessToken(overrides?: { prompt?: string; hint?: string }): void;
+}
+
+export interface GisCodeClient {
+  requestCode(): void;
+}
+
+/**
+ * The parts of the Google Identity Services client library used here
+ * See https://developers.google.com/identity/gsi/web/reference/js-reference
+ */
+export interface GoogleIdentityServices {
+  accounts: {
+    id: {
+      initialize(config: GisIdConfiguration): void;
+      prompt(listener?: (moment: GisPromptMoment) => void): void;
+      disableAutoSelect(): void;
+      revoke(
+        hint: string,
+        done: (response: { successful: boolean; error?: string }) => void
+      ): void;
+    };
+    oauth2: {
+      initTokenClient(config: GisTokenClientConfig): GisTokenClient;
+      initCodeClient(config: GisCodeClientConfig): GisCodeClient;
+      revoke(accessToken: string, done?: () => void): void;
+    };
+  };
+}
+
+/**
+ * Loads Google Identity Services and returns its namespace
+ */
+export type GisLoader = () => Promise<GoogleIdentityServices>;
+
+interface WebAccount {
+  user: User;
+  idToken: string;
+  expiresAt: number;
+  accessToken: string | null;
+  accessTokenExpiresAt: number | null;
+  grantedScopes: string[];
+}
+
+// Minimal DOM surface; the library is type-checked without the DOM lib
+interface ScriptElement {
+  src: string;
+  async: boolean;
+  onload: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface BrowserDocument {
+  createElement(tagName: 'script'): ScriptElement;
+  head: { appendChild(node: ScriptElement): unknown };
+}
+
+/**
+ * URL of the Google Identity Services client library
+ */
+export const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+const readGis = (): GoogleIdentityServices | null => {
+  const { google } = globalThis as { google?: GoogleIdentityServices };
+  return google?.accounts?.id ? google : null;
+};
+
+let scriptLoad: Promise<GoogleIdentityServices> | null = null;
+
+/**
+ * Default GisLoader: adds the client library script to the page once
+ */
+export function loadGoogleIdentityServices(): Promise<GoogleIdentityServices> {
+  const loaded = readGis();
+  if (loaded) {
+    return Promise.resolve(loaded);
+  }
+
+  const browserDocument = (globalThis as { document?: BrowserDocument })
+    .document;
+  if (!browserDocument) {
+    return Promise.reject(
+      createNativeError(
+        GoogleAuthErrorCodes.NOT_IMPLEMENTED,
+        'Google Identity Services requires a browser environment'
+      )
+    );
+  }
+
+  scriptLoad ??= new Promise((resolve, reject) => {
+    const fail = () => {
+      scriptLoad = null;
+      reject(
+        createNativeError(
+          GoogleAuthErrorCodes.NETWORK_ERROR,
+          `Failed to load Google Identity Services from ${GIS_SCRIPT_URL}`
+        )
+      );
+    };
+    const script = browserDocument.createElement('script');
+    script.src = GIS_SCRIPT_URL;
+    script.async = true;
+    script.onload = () => {
+      const gis = readGis();
+      if (gis) {
+        resolve(gis);
+      } else {
+        fail();
+      }
+    };
+    script.onerror = fail;
+    browserDocument.head.appendChild(script);
+  });
+  return scriptLoad;
+}
+
+const userFromClaims = (claims: IdTokenClaims): User => ({
+  id: claims.sub,
+  userId: claims.sub,
+  name: claims.name ?? null,
+  email: claims.email ?? '',
+  photo: claims.picture ?? null,
+  familyName: claims.family_name ?? null,
+  givenName: claims.given_name ?? null,
+  emailVerified: toEmailVerified(claims),
+  hostedDomain: claims.hd ?? null,
+  locale: claims.locale ?? null,
+});
+
+/**
+ * Web implementation of the native module on top of Google Identity Services
+ * ID tokens come from One Tap / FedCM prompts, access tokens and server auth
+ * codes from the OAuth 2.0 popup clients. Sessions are kept in memory only, so
+ * after a page reload signIn restores the session through auto-select.
+ */
+export class WebGoogleAuth implements Spec {
+  private readonly loadGis: GisLoader;
+  private gis: Promise<GoogleIdentityServices> | null = null;
+  private config: ConfigureParams | null = null;
+  private accounts = new Map<string, WebAccount>();
+  private activeUserId: string | null = null;
+  private serverAuthCode: string | null = null;
+  private promptInProgress = false;
+
+  /**
+   * @param loadGis Loads Google Identity Services; replace it in tests
+   */
+  constructor(loadGis: GisLoader = loadGoogleIdentityServices) {
+    this.loadGis = loadGis;
+  }
+
+  private services(): Promise<GoogleIdentityServices> {
+    if (!this.gis) {
+      this.gis = this.loadGis();
+      // Allow a failed load to be retried
+      this.gis.catch(() => {
+        this.gis = null;
+      });
+    }
+    return this.gis;
+  }
+
+  private requireConfig(method: keyof Spec): ConfigureParams & {
+    webClientId: string;
+  } {
+    if (!this.config?.webClientId) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.NOT_CONFIGURED,
+        `GoogleAuth must be configured before calling ${method}`
+      );
+    }
+    return this.config as ConfigureParams & { webClientId: string };
+  }
+
+  private activeAccount(): WebAccount | null {
+    return this.activeUserId === null
+      ? null
+      : (this.accounts.get(this.activeUserId) ?? null);
+  }
+
+  private requireSession(): WebAccount {
+    const account = this.activeAccount();
+    if (!account) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.NOT_SIGNED_IN,
+        'No user is currently signed in'
+      );
+    }
+    return account;
+  }
+
+  private requireAccount(userId: string): WebAccount {
+    const account = this.accounts.get(userId);
+    if (!account) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.ACCOUNT_NOT_FOUND,
+        `No signed-in account with userId ${userId}`
+      );
+    }
+    return account;
+  }
+
+  // Shows the One Tap / FedCM prompt and resolves with the ID token
+  private async promptIdToken(options: {
+    nonce?: string;
+    loginHint?: string;
+    hostedDomain?: string;
+    autoSelect: boolean;
+  }): Promise<string | 'cancelled' | 'noSavedCredentialFound'> {
+    const config = this.requireConfig('signIn');
+    if (this.promptInProgress) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.IN_PROGRESS,
+        'A sign-in prompt is already showing'
+      );
+    }
+    const gis = await this.services();
+
+    this.promptInProgress = true;
+    try {
+      return await new Promise((resolve) => {
+        gis.accounts.id.initialize({
+          client_id: config.webClientId,
+          callback: ({ credential }) =>
+            resolve(credential ?? 'noSavedCredentialFound'),
+          nonce: options.nonce,
+          hd: options.hostedDomain ?? config.hostedDomain,
+          login_hint: options.loginHint,
+          auto_select: options.autoSelect,
+          cancel_on_tap_outside: true,
+          use_fedcm_for_prompt: true,
+        });
+        gis.accounts.id.prompt((moment) => {
+          if (moment.isNotDisplayed?.()) {
+            resolve('noSavedCredentialFound');
+          } else if (moment.isSkippedMoment?.()) {
+            const reason = moment.getSkippedReason?.();
+            resolve(
+              reason === 'user_cancel' || reason === 'tap_outside'
+                ? 'cancelled'
+                : 'noSavedCredentialFound'
+            );
+          } else if (
+            moment.isDismissedMoment?.() &&
+            moment.getDismissedReason?.() !== 'credential_returned'
+          ) {
+            resolve('cancelled');
+          }
+        });
+      });
+    } finally {
+      this.promptInProgress = false;
+    }
+  }
+
+  // Adds or updates the account the ID token belongs to and makes it active
+  private storeIdToken(idToken: string): WebAccount {
+    const claims = decodeIdToken(idToken);
+    const existing = this.accounts.get(claims.sub);
+    const account: WebAccount = {
+      accessToken: null,
+      accessTokenExpiresAt: null,
+      grantedScopes: [...DEFAULT_SCOPES],
+      ...existing,
+      user: userFromClaims(claims),
+      idToken,
+      expiresAt: claims.exp * 1000,
+    };
+    this.accounts.set(claims.sub, account);
+    this.activeUserId = claims.sub;
+    return account;
+  }
+
+  private validAccessToken(account: WebAccount): string | null {
+    return account.accessTokenExpiresAt !== null &&
+      account.accessTokenExpiresAt > Date.now()
+      ? account.accessToken
+      : null;
+  }
+
+  // Requests a one-time code through the OAuth 2.0 popup
+  private async requestServerAuthCode(account: WebAccount): Promise<string> {
+    const config = this.requireConfig('signIn');
+    const gis = await this.services();
+    return new Promise((resolve, reject) => {
+      gis.accounts.oauth2
+        .initCodeClient({
+          client_id: config.webClientId,
+          scope: account.grantedScopes.join(' '),
+          ux_mode: 'popup',
+          hint: account.user.email,
+          hosted_domain: config.hostedDomain,
+          callback: (response) => {
+            if (response.code) {
+              resolve(response.code);
+            } else {
+              reject(
+                createNativeError(
+                  GoogleAuthErrorCodes.SIGN_IN_ERROR,
+                  response.error_description ??
+                    response.error ??
+                    'No server auth code returned'
+                )
+              );
+            }
+          },
+          error_callback: (error) =>
+            reject(
+              createNativeError(
+                error.type === 'popup_closed'
+                  ? GoogleAuthErrorCodes.SIGN_IN_CANCELLED
+                  : GoogleAuthErrorCodes.SIGN_IN_ERROR,
+                error.message ?? `Authorization popup failed: ${error.type}`
+              )
+            ),
+        })
+        .requestCode();
+    });
+  }
+
+  async configure(params: ConfigureParams): Promise<void> {
+    if (!params.webClientId) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.INVALID_CONFIG,
+        'webClientId is required on web'
+      );
+    }
+    this.config = { ...params };
+    // Load early so later popups still run within the user's click
+    await this.services();
+  }
+
+  async signIn(options?: SignInOptions): Promise<OneTapResponse> {
+    const config = this.requireConfig('signIn');
+    const mode = options?.mode ?? config.credentialManagerMode ?? 'auto';
+    const forceAccountPicker =
+      options?.forceAccountPicker ?? config.forceAccountPicker ?? false;
+    const result = await this.promptIdToken({
+      nonce: options?.nonce,
+      loginHint: options?.loginHint ?? config.accountName,
+      hostedDomain: options?.hostedDomain,
+      autoSelect: mode !== 'interactive' && !forceAccountPicker,
+    });
+    if (result === 'cancelled' || result === 'noSavedCredentialFound') {
+      return { type: result };
+    }
+
+    const account = this.storeIdToken(result);
+    // Consent for extra scopes comes first so a server auth code covers them
+    if (options?.scopes?.length) {
+      await this.addScopes(options.scopes);
+    }
+    this.serverAuthCode = config.offlineAccess
+      ? await this.requestServerAuthCode(account)
+      : null;
+
+    return {
+      type: 'success',
+      data: {
+        idToken: account.idToken,
+        accessToken: this.validAccessToken(account),
+        serverAuthCode: this.serverAuthCode,
+        scopes: [...account.grantedScopes],
+        user: { ...account.user },
+      },
+    };
+  }
+
+  // Any One Tap prompt can show UI, so only the in-memory session is restored
+  async signInSilently(): Promise<OneTapResponse> {
+    this.requireConfig('signInSilently');
+    const account = this.activeAccount();
+    if (!account) {
+      return { type: 'noSavedCredentialFound' };
+    }
+    return {
+      type: 'success',
+      data: {
+        idToken: account.idToken,
+        accessToken: this.validAccessToken(account),
+        serverAuthCode: null,
+        scopes: [...account.grantedScopes],
+        user: { ...account.user },
+      },
+    };
+  }
+
+  async hasPreviousSignIn(): Promise<boolean> {
+    return this.activeAccount() !== null;
+  }
+
+  async signOut(options?: SignOutOptions): Promise<void> {
+    const userId = options?.userId;
+    if (userId === undefined) {
+      this.accounts.clear();
+    } else {
+      this.accounts.delete(userId);
+    }
+    if (userId === undefined || this.activeUserId === userId) {
+      this.activeUserId = null;
+      this.serverAuthCode = null;
+    }
+    // Otherwise One Tap signs the same account straight back in
+    if (this.gis) {
+      (await this.services()).accounts.id.disableAutoSelect();
+    }
+  }
+
+  async revokeAccess(): Promise<RevokeAccessResponse> {
+    this.requireConfig('revokeAccess');
+    const account = this.requireSession();
+    const gis = await this.services();
+
+    const accessToken = this.validAccessToken(account);
+    if (accessToken) {
+      await new Promise<void>((resolve) =>
+        gis.accounts.oauth2.revoke(accessToken, resolve)
+      );
+    }
+    const response = await new Promise<{
+      successful: boolean;
+      error?: string;
+    }>((resolve) => gis.accounts.id.revoke(account.user.userId, resolve));
+    if (!response.successful) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.REVOKE_ERROR,
+        response.error ?? 'Failed to revoke access'
+      );
+    }
+
+    await this.signOut({ userId: account.user.userId });
+    return { status: 'revoked' };
+  }
+
+  async getTokens(userId?: string): Promise<GetTokensResponse> {
+    this.requireConfig('getTokens');
+    const account =
+      userId === undefined
+        ? this.requireSession()
+        : this.requireAccount(userId);
+    return {
+      idToken: account.idToken,
+      accessToken: this.validAccessToken(account),
+      expiresAt: account.expiresAt,
+    };
+  }
+
+  async refreshTokens(): Promise<RefreshTokensResponse> {
+    this.requireConfig('refreshTokens');
+    const account = this.requireSession();
+    // Google Identity Services has no refresh tokens; auto-select issues a new ID token silently
+    const result = await this.promptIdToken({
+      loginHint: account.user.email,
+      autoSelect: true,
+    });
+    if (result === 'cancelled' || result === 'noSavedCredentialFound') {
+      throw createNativeError(
+        GoogleAuthErrorCodes.SIGN_IN_REQUIRED,
+        'The session could not be refreshed without user interaction'
+      );
+    }
+    if (decodeIdToken(result).sub !== account.user.userId) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.TOKEN_REFRESH_ERROR,
+        'A different account was returned while refreshing tokens'
+      );
+    }
+
+    const refreshed = this.storeIdToken(result);
+    return {
+      idToken: refreshed.idToken,
+      accessToken: this.validAccessToken(refreshed),
+      expiresAt: refreshed.expiresAt,
+    };
+  }
+
+  async isTokenExpired(): Promise<boolean> {
+    const account = this.activeAccount();
+    return !account || account.expiresAt <= Date.now();
+  }
+
+  async getServerAuthCode(): Promise<string | null> {
+    return this.serverAuthCode;
+  }
+
+  async addScopes(scopes: string[]): Promise<AddScopesResponse> {
+    const config = this.requireConfig('addScopes');
+    const account = this.requireSession();
+    const gis = await this.services();
+
+    const response = await new Promise<GisTokenResponse | null>(
+      (resolve, reject) => {
+        gis.accounts.oauth2
+          .initTokenClient({
+            client_id: config.webClientId,
+            scope: Array.from(
+              new Set([...account.grantedScopes, ...scopes])
+            ).join(' '),
+            hint: account.user.email,
+            hosted_domain: config.hostedDomain,
+            include_granted_scopes: true,
+            callback: resolve,
+            error_callback: (error) =>
+              // Closing the consent popup declines the scopes
+              error.type === 'popup_closed'
+                ? resolve(null)
+                : reject(
+                    createNativeError(
+                      GoogleAuthErrorCodes.ADD_SCOPES_ERROR,
+                      error.message ??
+                        `Authorization popup failed: ${error.type}`
+                    )
+                  ),
+          })
+          .requestAccessToken({ prompt: '' });
+      }
+    );
+
+    if (response?.error) {
+      throw createNativeError(
+        GoogleAuthErrorCodes.ADD_SCOPES_ERROR,
+        response.error_description ?? response.error
+      );
+    }
+    if (response?.access_token) {
+      account.accessToken = response.access_token;
+      account.accessTokenExpiresAt =
+        Date.now() + Number(response.expires_in ?? 0) * 1000;
+      account.grantedScopes = Array.from(
+        new Set([
+          ...account.grantedScopes,
+          ...(response.scope ?? '').split(' ').filter(Boolean),
+        ])
+      );
+    }
+
+    return {
+      grantedScopes: [...account.grantedScopes],
+      accessToken: this.validAccessToken(account),
+      idToken: account.idToken,
+      expiresAt: account.accessTokenExpiresAt ?? account.expiresAt,
+    };
+  }
+
+  async getGrantedScopes(): Promise<string[]> {
+    return [...(this.activeAccount()?.grantedScopes ?? [])];
+  }
+
+  async getCurrentUser(): Promise<User | null> {
+    const account = this.activeAccount();
+    return account ? { ...account.user } : null;
+  }
+
+  async getAccounts(): Promise<User[]> {
+    return Array.from(this.accounts.values(), ({ user }) => ({ ...user }));
+  }
+
+  async switchAccount(userId: string): Promise<User> {
+    this.requireConfig('switchAccount');
+    const { user } = this.requireAccount(userId);
+    this.activeUserId = userId;
+    this.serverAuthCode = null;
+    return { ...user };
+  }
+
+  async checkPlayServices(): Promise<PlayServicesInfo> {
+    // Google Play Services only exist on Android
+    return { isAvailable: true };
+  }
+}
+
+export default new WebGoogleAuth();
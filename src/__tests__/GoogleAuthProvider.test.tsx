@@ -0,0 +1,179 @@
+import type { Spec, User } from '../NativeGoogleAuth';
+import type { GoogleAuthContextValue } from '../GoogleAuthProvider';
+
+jest.mock('../NativeGoogleAuth', () => ({
+  __esModule: true,
+  default: {
+    configure: jest.fn(),
+    getCurrentUser: jest.fn(),
+    getAccounts: jest.fn(),
+    signIn: jest.fn(),
+  },
+}));
+
+const user: User = {
+  id: '1234',
+  userId: '1234',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+  familyName: 'Doe',
+  givenName: 'Jane',
+  emailVerified: true,
+  hostedDomain: null,
+  locale: null,
+};
+
+// setTimeout's largest delay, about 24.8 days
+const MAX_TIMEOUT_MS = 2147483647;
+
+let React: typeof import('react');
+let TestRenderer: typeof import('react-test-renderer');
+let provider: typeof import('../GoogleAuthProvider');
+let authState: typeof import('../authState');
+let native: jest.Mocked<Spec>;
+
+beforeAll(() => {
+  (
+    globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+  ).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+beforeEach(() => {
+  jest.resetModules();
+  React = require('react');
+  TestRenderer = require('react-test-renderer');
+  provider = require('../GoogleAuthProvider');
+  authState = require('../authState');
+  native = require('../NativeGoogleAuth').default;
+  Object.values(native).forEach((fn) => (fn as jest.Mock).mockReset());
+  native.configure.mockResolvedValue();
+  native.getAccounts.mockResolvedValue([]);
+  // GoogleAuth logs every failure; keep test output readable
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+// Renders a Provider and returns the latest context value it provides
+const renderProvider = async () => {
+  const state: {
+    current: GoogleAuthContextValue | null;
+    user: ReturnType<typeof provider.useGoogleUser> | null;
+  } = { current: null, user: null };
+  const Probe = () => {
+    state.current = provider.useGoogleAuth();
+    state.user = provider.useGoogleUser();
+    return null;
+  };
+
+  await TestRenderer.act(async () => {
+    TestRenderer.create(
+      React.createElement(
+        provider.GoogleAuthProvider,
+        { config: { webClientId: '123-abc.apps.googleusercontent.com' } },
+        React.createElement(Probe)
+      )
+    );
+  });
+  return { state };
+};
+
+it('moves from idle to signedIn when a session exists', async () => {
+  let resolveUser: (value: User | null) => void = () => {};
+  native.getCurrentUser.mockReturnValue(
+    new Promise((resolve) => {
+      resolveUser = resolve;
+    })
+  );
+
+  const { state } = await renderProvider();
+  expect(state.current?.status).toBe('idle');
+  expect(state.current?.isConfigured).toBe(true);
+
+  await TestRenderer.act(async () => resolveUser(user));
+
+  expect(state.current?.status).toBe('signedIn');
+  expect(state.user).toEqual({
+    user: expect.objectContaining({ userId: user.userId }),
+    status: 'signedIn',
+  });
+});
+
+it('reports signedOut when there is no session', async () => {
+  native.getCurrentUser.mockResolvedValue(null);
+
+  const { state } = await renderProvider();
+
+  expect(state.current?.status).toBe('signedOut');
+  expect(state.current?.user).toBeNull();
+});
+
+it('exposes configuration failures through error', async () => {
+  native.configure.mockRejectedValue(
+    Object.assign(new Error('bad client'), {
+      code: 'INVALID_CONFIG',
+      userInfo: null,
+    })
+  );
+
+  const { state } = await renderProvider();
+
+  expect(state.current?.status).toBe('error');
+  expect(state.current?.error?.code).toBe('INVALID_CONFIG');
+  expect(state.current?.isConfigured).toBe(false);
+});
+
+it('throws when a hook is used outside the Provider', () => {
+  const Orphan = () => {
+    provider.useGoogleTokens();
+    return null;
+  };
+
+  expect(() =>
+    TestRenderer.act(() => {
+      TestRenderer.create(React.createElement(Orphan));
+    })
+  ).toThrow('useGoogleAuth must be used within a GoogleAuthProvider');
+});
+
+it('flips isExpired when the tokens lapse', async () => {
+  jest.useFakeTimers({ now: 1_000_000 });
+  native.getCurrentUser.mockResolvedValue(user);
+  const { state } = await renderProvider();
+
+  await TestRenderer.act(async () =>
+    authState.setAuthTokens({
+      idToken: 'id',
+      accessToken: null,
+      expiresAt: Date.now() + 5000,
+    })
+  );
+  expect(state.current?.isExpired).toBe(false);
+
+  await TestRenderer.act(async () => jest.advanceTimersByTime(5000));
+  expect(state.current?.isExpired).toBe(true);
+});
+
+it('waits past the maximum timer delay for long-lived tokens', async () => {
+  jest.useFakeTimers({ now: 1_000_000 });
+  native.getCurrentUser.mockResolvedValue(user);
+  const { state } = await renderProvider();
+
+  await TestRenderer.act(async () =>
+    authState.setAuthTokens({
+      idToken: 'id',
+      accessToken: null,
+      expiresAt: Date.now() + MAX_TIMEOUT_MS + 60_000,
+    })
+  );
+
+  await TestRenderer.act(async () => jest.advanceTimersByTime(MAX_TIMEOUT_MS));
+  expect(state.current?.isExpired).toBe(false);
+
+  await TestRenderer.act(async () => jest.advanceTimersByTime(60_000));
+  expect(state.current?.isExpired).toBe(true);
+});
@@ -0,0 +1,134 @@
+let api: typeof import('../jest');
+let mock: import('../MockGoogleAuth').MockGoogleAuth;
+
+beforeEach(() => {
+  jest.resetModules();
+  api = require('../jest');
+  mock = api.mockGoogleAuth;
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('backs the GoogleAuth API without native code', async () => {
+  await api.GoogleAuth.configure({});
+  const response = await api.GoogleAuth.signIn();
+
+  expect(response).toMatchObject({
+    type: 'success',
+    data: { user: api.MOCK_USER, scopes: ['openid', 'email', 'profile'] },
+  });
+  await expect(api.GoogleAuth.getCurrentUser()).resolves.toEqual(api.MOCK_USER);
+  expect(mock.calls.map((call) => call.method)).toEqual([
+    'configure',
+    'signIn',
+    'getCurrentUser',
+  ]);
+});
+
+it('rejects calls before configure', async () => {
+  await expect(api.GoogleAuth.signIn()).rejects.toMatchObject({
+    code: api.GoogleAuthErrorCodes.NOT_CONFIGURED,
+  });
+});
+
+it('simulates cancellation and missing saved credentials', async () => {
+  mock.setConfigured();
+
+  mock.setNextSignInResult('cancelled');
+  await expect(api.GoogleAuth.signIn()).resolves.toEqual({
+    type: 'cancelled',
+  });
+
+  mock.setNextSignInResult('noSavedCredentialFound');
+  await expect(api.GoogleAuth.signIn()).resolves.toEqual({
+    type: 'noSavedCredentialFound',
+  });
+  expect(mock.getUser()).toBeNull();
+});
+
+it('restores sessions silently', async () => {
+  mock.setConfigured();
+
+  await expect(api.GoogleAuth.hasPreviousSignIn()).resolves.toBe(false);
+  await expect(api.GoogleAuth.signInSilently()).resolves.toEqual({
+    type: 'noSavedCredentialFound',
+  });
+
+  mock.setSignedIn();
+  await expect(api.GoogleAuth.hasPreviousSignIn()).resolves.toBe(true);
+  await expect(api.GoogleAuth.signInSilently()).resolves.toMatchObject({
+    type: 'success',
+    data: { user: api.MOCK_USER },
+  });
+});
+
+it('simulates expired tokens and refresh', async () => {
+  mock.setSignedIn({ email: 'someone@example.com' });
+  mock.setTokensExpired();
+
+  await expect(api.GoogleAuth.isTokenExpired()).resolves.toBe(true);
+  const refreshed = await api.GoogleAuth.refreshTokens();
+
+  expect(refreshed.expiresAt).toBeGreaterThan(Date.now());
+  expect(api.decodeIdToken(refreshed.idToken).email).toBe(
+    'someone@example.com'
+  );
+  await expect(api.GoogleAuth.isTokenExpired()).resolves.toBe(false);
+});
+
+it('echoes nonces so nonce validation passes', async () => {
+  mock.setConfigured();
+
+  const response = await api.GoogleAuth.signIn({ nonce: 'abc' });
+
+  expect(response.type).toBe('success');
+});
+
+it('injects errors with real error codes', async () => {
+  mock.setSignedIn();
+  mock.failNext('getTokens', api.GoogleAuthErrorCodes.NETWORK_ERROR);
+
+  await expect(api.GoogleAuth.getTokens()).rejects.toMatchObject({
+    code: 'NETWORK_ERROR',
+    isRetryable: true,
+  });
+  await expect(api.GoogleAuth.getTokens()).resolves.toMatchObject({
+    accessToken: 'mock-access-token',
+  });
+
+  mock.setError('signOut', api.GoogleAuthErrorCodes.SIGN_OUT_ERROR);
+  await expect(api.GoogleAuth.signOut()).rejects.toMatchObject({
+    code: 'SIGN_OUT_ERROR',
+  });
+  mock.setError('signOut', null);
+  await expect(api.GoogleAuth.signOut()).resolves.toBeUndefined();
+});
+
+it('simulates several signed-in accounts', async () => {
+  mock.setSignedIn();
+  mock.setSignedIn({ userId: '2', email: 'second@example.com' });
+
+  expect(
+    (await api.GoogleAuth.getAccounts()).map((account) => account.userId)
+  ).toEqual([api.MOCK_USER.userId, '2']);
+  await expect(api.GoogleAuth.switchAccount('1')).rejects.toMatchObject({
+    code: 'ACCOUNT_NOT_FOUND',
+  });
+
+  await api.GoogleAuth.switchAccount(api.MOCK_USER.userId);
+  await api.GoogleAuth.signOut({ userId: '2' });
+
+  expect(mock.getUser()).toEqual(api.MOCK_USER);
+  await expect(api.GoogleAuth.getAccounts()).resolves.toEqual([api.MOCK_USER]);
+});
+
+it('resets to the initial state', async () => {
+  mock.setSignedIn();
+  mock.reset();
+
+  await expect(api.GoogleAuth.getCurrentUser()).resolves.toBeNull();
+  expect(mock.calls).toHaveLength(1);
+});
@@ -0,0 +1,297 @@
+/**
+ * @jest-environment jsdom
+ */
+import type {
+  GisIdConfiguration,
+  GisPromptMoment,
+  GisTokenClientConfig,
+  GoogleIdentityServices,
+} from '../NativeGoogleAuth.web';
+import {
+  GIS_SCRIPT_URL,
+  WebGoogleAuth,
+  loadGoogleIdentityServices,
+} from '../NativeGoogleAuth.web';
+
+const CLIENT_ID = '1234-abc.apps.googleusercontent.com';
+const NOW_SECONDS = Math.floor(Date.now() / 1000);
+
+const idToken = (claims: object) =>
+  [
+    Buffer.from('{"alg":"RS256"}').toString('base64url'),
+    Buffer.from(
+      JSON.stringify({
+        sub: '42',
+        email: 'jane@example.com',
+        email_verified: true,
+        name: 'Jane Doe',
+        iat: NOW_SECONDS,
+        exp: NOW_SECONDS + 3600,
+        ...claims,
+      })
+    ).toString('base64url'),
+    'sig',
+  ].join('.');
+
+// Fake Google Identity Services; each prompt answers with the next queued result
+const createGis = () => {
+  const prompts: (string | GisPromptMoment)[] = [];
+  let idConfig: GisIdConfiguration | null = null;
+  let tokenConfig: GisTokenClientConfig | null = null;
+  const tokenResponses: Parameters<GisTokenClientConfig['callback']>[0][] = [];
+
+  const gis: GoogleIdentityServices = {
+    accounts: {
+      id: {
+        initialize: jest.fn((config) => {
+          idConfig = config;
+        }),
+        prompt: jest.fn((listener) => {
+          const next = prompts.shift();
+          if (typeof next === 'string') {
+            idConfig!.callback({ credential: next });
+          } else if (next) {
+            listener?.(next);
+          }
+        }),
+        disableAutoSelect: jest.fn(),
+        revoke: jest.fn((_hint, done) => done({ successful: true })),
+      },
+      oauth2: {
+        initTokenClient: jest.fn((config) => {
+          tokenConfig = config;
+          return {
+            requestAccessToken: jest.fn(() =>
+              tokenConfig!.callback(tokenResponses.shift()!)
+            ),
+          };
+        }),
+        initCodeClient: jest.fn((config) => ({
+          requestCode: () => config.callback({ code: 'server-code' }),
+        })),
+        revoke: jest.fn((_token, done) => done?.()),
+      },
+    },
+  };
+
+  return {
+    gis,
+    prompts,
+    tokenResponses,
+    idConfig: () => idConfig,
+    tokenConfig: () => tokenConfig,
+  };
+};
+
+const setup = async (config = {}) => {
+  const fake = createGis();
+  const auth = new WebGoogleAuth(() => Promise.resolve(fake.gis));
+  await auth.configure({ webClientId: CLIENT_ID, ...config });
+  return { auth, ...fake };
+};
+
+it('requires a web client ID', async () => {
+  const auth = new WebGoogleAuth(() => Promise.resolve(createGis().gis));
+
+  await expect(auth.configure({})).rejects.toMatchObject({
+    code: 'INVALID_CONFIG',
+  });
+  await expect(auth.signIn()).rejects.toMatchObject({
+    code: 'NOT_CONFIGURED',
+  });
+});
+
+it('signs in with the ID token returned by the prompt', async () => {
+  const { auth, prompts, idConfig } = await setup({ hostedDomain: 'a.com' });
+  const token = idToken({ hd: 'a.com', nonce: 'n-1' });
+  prompts.push(token);
+
+  const response = await auth.signIn({ nonce: 'n-1' });
+
+  expect(idConfig()).toMatchObject({
+    client_id: CLIENT_ID,
+    nonce: 'n-1',
+    hd: 'a.com',
+    auto_select: true,
+  });
+  expect(response).toEqual({
+    type: 'success',
+    data: {
+      idToken: token,
+      accessToken: null,
+      serverAuthCode: null,
+      scopes: ['openid', 'email', 'profile'],
+      user: {
+        id: '42',
+        userId: '42',
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        photo: null,
+        familyName: null,
+        givenName: null,
+        emailVerified: true,
+        hostedDomain: 'a.com',
+        locale: null,
+      },
+    },
+  });
+  await expect(auth.getCurrentUser()).resolves.toMatchObject({
+    userId: '42',
+  });
+  await expect(auth.getTokens()).resolves.toEqual({
+    idToken: token,
+    accessToken: null,
+    expiresAt: (NOW_SECONDS + 3600) * 1000,
+  });
+  await expect(auth.isTokenExpired()).resolves.toBe(false);
+});
+
+it('reads email_verified claims encoded as strings', async () => {
+  const { auth, prompts } = await setup();
+  prompts.push(idToken({ email_verified: 'true' }));
+
+  const response = await auth.signIn();
+
+  expect(response).toMatchObject({
+    data: { user: { emailVerified: true } },
+  });
+});
+
+it('maps prompt moments to cancelled and noSavedCredentialFound', async () => {
+  const { auth, prompts } = await setup();
+  prompts.push(
+    { isSkippedMoment: () => true, getSkippedReason: () => 'user_cancel' },
+    { isNotDisplayed: () => true }
+  );
+
+  await expect(auth.signIn()).resolves.toEqual({ type: 'cancelled' });
+  await expect(auth.signIn()).resolves.toEqual({
+    type: 'noSavedCredentialFound',
+  });
+  await expect(auth.getCurrentUser()).resolves.toBeNull();
+});
+
+it('restores only the in-memory session silently', async () => {
+  const { auth, gis, prompts } = await setup();
+
+  await expect(auth.hasPreviousSignIn()).resolves.toBe(false);
+  await expect(auth.signInSilently()).resolves.toEqual({
+    type: 'noSavedCredentialFound',
+  });
+  expect(gis.accounts.id.prompt).not.toHaveBeenCalled();
+
+  prompts.push(idToken({}));
+  await auth.signIn();
+  await expect(auth.hasPreviousSignIn()).resolves.toBe(true);
+  await expect(auth.signInSilently()).resolves.toMatchObject({
+    type: 'success',
+  });
+  expect(gis.accounts.id.prompt).toHaveBeenCalledTimes(1);
+});
+
+it('requests a server auth code when offline access is enabled', async () => {
+  const { auth, prompts } = await setup({ offlineAccess: true });
+  prompts.push(idToken({}));
+
+  const response = await auth.signIn();
+
+  expect(response.type === 'success' && response.data.serverAuthCode).toBe(
+    'server-code'
+  );
+  await expect(auth.getServerAuthCode()).resolves.toBe('server-code');
+});
+
+it('grants scopes through the token client', async () => {
+  const { auth, gis, prompts, tokenResponses, tokenConfig } = await setup();
+  prompts.push(idToken({}));
+  await auth.signIn();
+  tokenResponses.push({
+    access_token: 'ya29.token',
+    expires_in: 3599,
+    scope: 'email https://www.googleapis.com/auth/drive.readonly',
+  });
+
+  const response = await auth.addScopes([
+    'https://www.googleapis.com/auth/drive.readonly',
+  ]);
+
+  expect(tokenConfig()).toMatchObject({
+    client_id: CLIENT_ID,
+    hint: 'jane@example.com',
+    include_granted_scopes: true,
+  });
+  expect(response.grantedScopes).toContain(
+    'https://www.googleapis.com/auth/drive.readonly'
+  );
+  expect(response.accessToken).toBe('ya29.token');
+  await expect(auth.getTokens()).resolves.toMatchObject({
+    accessToken: 'ya29.token',
+  });
+
+  await expect(auth.revokeAccess()).resolves.toEqual({ status: 'revoked' });
+  expect(gis.accounts.oauth2.revoke).toHaveBeenCalledWith(
+    'ya29.token',
+    expect.any(Function)
+  );
+  expect(gis.accounts.id.revoke).toHaveBeenCalledWith(
+    '42',
+    expect.any(Function)
+  );
+  await expect(auth.getCurrentUser()).resolves.toBeNull();
+});
+
+it('refreshes the ID token silently and requires sign-in otherwise', async () => {
+  const { auth, prompts } = await setup();
+  prompts.push(idToken({}));
+  await auth.signIn();
+
+  const refreshed = idToken({ iat: NOW_SECONDS + 1 });
+  prompts.push(refreshed, { isNotDisplayed: () => true });
+
+  await expect(auth.refreshTokens()).resolves.toMatchObject({
+    idToken: refreshed,
+  });
+  await expect(auth.refreshTokens()).rejects.toMatchObject({
+    code: 'SIGN_IN_REQUIRED',
+  });
+});
+
+it('tracks several accounts and disables auto-select on sign-out', async () => {
+  const { auth, gis, prompts } = await setup();
+  prompts.push(idToken({}), idToken({ sub: '7', email: 'sam@example.com' }));
+  await auth.signIn();
+  await auth.signIn();
+
+  await expect(auth.getAccounts()).resolves.toHaveLength(2);
+  await expect(auth.switchAccount('42')).resolves.toMatchObject({
+    userId: '42',
+  });
+  await expect(auth.switchAccount('missing')).rejects.toMatchObject({
+    code: 'ACCOUNT_NOT_FOUND',
+  });
+
+  await auth.signOut({ userId: '42' });
+
+  expect(gis.accounts.id.disableAutoSelect).toHaveBeenCalled();
+  await expect(auth.getCurrentUser()).resolves.toBeNull();
+  await expect(auth.getAccounts()).resolves.toEqual([
+    expect.objectContaining({ userId: '7' }),
+  ]);
+});
+
+it('loads the client library script once', async () => {
+  const first = loadGoogleIdentityServices();
+  const second = loadGoogleIdentityServices();
+  const script = document.querySelector('script') as HTMLScriptElement;
+
+  expect(script.src).toBe(GIS_SCRIPT_URL);
+  expect(document.querySelectorAll('script')).toHaveLength(1);
+
+  const { gis } = createGis();
+  (globalThis as { google?: unknown }).google = gis;
+  script.onload?.(new Event('load'));
+
+  await expect(first).resolves.toBe(gis);
+  await expect(second).resolves.toBe(gis);
+  delete (globalThis as { google?: unknown }).google;
+});
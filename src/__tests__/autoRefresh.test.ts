@@ -0,0 +1,148 @@
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import { createAutoRefresh } from '../autoRefresh';
+import { clearAuthState, setAuthTokens } from '../authState';
+import { createErrorResponse, GoogleAuthErrorCodes } from '../errors';
+
+// react-native's own mock defines currentState as a function
+jest.mock('react-native', () => ({
+  AppState: {
+    currentState: 'active',
+    addEventListener: jest.fn(() => ({ remove: jest.fn() })),
+  },
+}));
+
+const NOW = 1_700_000_000_000;
+
+const emitAppState = (state: AppStateStatus) => {
+  const calls = jest.mocked(AppState.addEventListener).mock.calls;
+  calls[calls.length - 1]![1](state);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(Math, 'random').mockReturnValue(1);
+  jest.replaceProperty(AppState, 'currentState', 'active');
+  clearAuthState();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+it('refreshes leadTimeSeconds before expiry', () => {
+  const refresh = jest.fn().mockResolvedValue({});
+  const handle = createAutoRefresh(refresh, { leadTimeSeconds: 60 });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW + 120000 });
+  jest.advanceTimersByTime(59999);
+  expect(refresh).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(1);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  handle.stop();
+});
+
+it('reschedules from the refresh result when tokens are unchanged', async () => {
+  const refresh = jest
+    .fn()
+    .mockResolvedValueOnce({ expiresAt: NOW + 240000 })
+    .mockResolvedValue({});
+  const handle = createAutoRefresh(refresh, { leadTimeSeconds: 60 });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW + 120000 });
+  await jest.advanceTimersByTimeAsync(60000);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  await jest.advanceTimersByTimeAsync(119999);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  await jest.advanceTimersByTimeAsync(1);
+  expect(refresh).toHaveBeenCalledTimes(2);
+
+  handle.stop();
+});
+
+// Codes rejected by the Android and iOS refreshTokens implementations
+it.each([
+  GoogleAuthErrorCodes.REFRESH_FAILED,
+  GoogleAuthErrorCodes.TOKEN_REFRESH_ERROR,
+])('retries %s failures with backoff', async (code) => {
+  const refresh = jest
+    .fn()
+    .mockRejectedValue(createErrorResponse(code, 'refresh failed'));
+  const handle = createAutoRefresh(refresh, {
+    leadTimeSeconds: 0,
+    initialRetryDelayMs: 1000,
+  });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW });
+  await jest.advanceTimersByTimeAsync(0);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  await jest.advanceTimersByTimeAsync(1000);
+  expect(refresh).toHaveBeenCalledTimes(2);
+
+  await jest.advanceTimersByTimeAsync(2000);
+  expect(refresh).toHaveBeenCalledTimes(3);
+
+  handle.stop();
+});
+
+it('retries only retryableCodes when they are given', async () => {
+  const error = createErrorResponse(
+    GoogleAuthErrorCodes.REFRESH_FAILED,
+    'refresh failed'
+  );
+  const refresh = jest.fn().mockRejectedValue(error);
+  const onError = jest.fn();
+  const handle = createAutoRefresh(refresh, {
+    leadTimeSeconds: 0,
+    retryableCodes: [GoogleAuthErrorCodes.NETWORK_ERROR],
+    onError,
+  });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW });
+  await jest.advanceTimersByTimeAsync(60000);
+
+  expect(refresh).toHaveBeenCalledTimes(1);
+  expect(onError).toHaveBeenCalledWith(error);
+
+  handle.stop();
+});
+
+it('reports non-retryable failures without retrying', async () => {
+  const error = createErrorResponse(
+    GoogleAuthErrorCodes.SIGN_IN_REQUIRED,
+    'sign in'
+  );
+  const refresh = jest.fn().mockRejectedValue(error);
+  const onError = jest.fn();
+  const handle = createAutoRefresh(refresh, { leadTimeSeconds: 0, onError });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW });
+  await jest.advanceTimersByTimeAsync(60000);
+
+  expect(refresh).toHaveBeenCalledTimes(1);
+  expect(onError).toHaveBeenCalledWith(error);
+
+  handle.stop();
+});
+
+it('pauses in the background and catches up on foreground', () => {
+  const refresh = jest.fn().mockResolvedValue({});
+  const handle = createAutoRefresh(refresh, { leadTimeSeconds: 0 });
+
+  setAuthTokens({ idToken: 'id', accessToken: null, expiresAt: NOW + 1000 });
+  emitAppState('background');
+  jest.advanceTimersByTime(5000);
+  expect(refresh).not.toHaveBeenCalled();
+
+  emitAppState('active');
+  jest.advanceTimersByTime(0);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  handle.stop();
+});
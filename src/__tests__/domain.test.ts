@@ -0,0 +1,60 @@
+import { assertDomainAllowed } from '../domain';
+
+const idToken = (claims: object) =>
+  [
+    Buffer.from('{"alg":"RS256"}').toString('base64url'),
+    Buffer.from(JSON.stringify({ ...claims, exp: 2, iat: 1 })).toString(
+      'base64url'
+    ),
+    'sig',
+  ].join('.');
+
+const workspace = idToken({
+  hd: 'Partner.com',
+  email: 'jane@partner.com',
+  email_verified: true,
+});
+const consumer = idToken({ email: 'sam@gmail.com', email_verified: true });
+
+it('allows every account without restrictions', () => {
+  expect(() => assertDomainAllowed(consumer, {})).not.toThrow();
+  expect(() => assertDomainAllowed(consumer, null)).not.toThrow();
+});
+
+it('matches hostedDomain and allowedDomains case-insensitively', () => {
+  expect(() =>
+    assertDomainAllowed(workspace, {
+      hostedDomain: 'example.com',
+      allowedDomains: ['partner.com'],
+    })
+  ).not.toThrow();
+  expect(() =>
+    assertDomainAllowed(consumer, { hostedDomain: 'example.com' })
+  ).toThrow(
+    expect.objectContaining({
+      code: 'DOMAIN_NOT_ALLOWED',
+      userInfo: { hostedDomain: null },
+    })
+  );
+});
+
+it('matches verified emails against wildcard patterns', () => {
+  const config = {
+    hostedDomain: 'example.com',
+    allowedEmails: ['*@gmail.com'],
+  };
+
+  expect(() => assertDomainAllowed(consumer, config)).not.toThrow();
+  expect(() =>
+    assertDomainAllowed(
+      idToken({ email: 'sam@gmail.com', email_verified: false }),
+      config
+    )
+  ).toThrow(expect.objectContaining({ code: 'DOMAIN_NOT_ALLOWED' }));
+  expect(() =>
+    assertDomainAllowed(
+      idToken({ email: 'sam@gmail.com.evil.io', email_verified: true }),
+      config
+    )
+  ).toThrow(expect.objectContaining({ code: 'DOMAIN_NOT_ALLOWED' }));
+});
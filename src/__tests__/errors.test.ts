@@ -0,0 +1,105 @@
+import {
+  GoogleAuthError,
+  GoogleAuthErrorCodes,
+  createErrorResponse,
+  mapNativeErrorCode,
+  normalizeError,
+} from '../errors';
+
+const nativeError = (code: string, message: string) =>
+  Object.assign(new Error(message), { code, userInfo: { domain: 'native' } });
+
+describe('mapNativeErrorCode', () => {
+  it('maps platform-specific codes', () => {
+    expect(mapNativeErrorCode('GIDSignInErrorCanceled')).toBe(
+      GoogleAuthErrorCodes.SIGN_IN_CANCELLED
+    );
+  });
+
+  it('keeps codes that are already GoogleAuthErrorCodes', () => {
+    expect(mapNativeErrorCode('IN_PROGRESS')).toBe(
+      GoogleAuthErrorCodes.IN_PROGRESS
+    );
+  });
+
+  it('uses the fallback for unknown codes', () => {
+    expect(mapNativeErrorCode('E_WHATEVER')).toBe(
+      GoogleAuthErrorCodes.SIGN_IN_ERROR
+    );
+    expect(
+      mapNativeErrorCode('E_WHATEVER', GoogleAuthErrorCodes.SIGN_OUT_ERROR)
+    ).toBe(GoogleAuthErrorCodes.SIGN_OUT_ERROR);
+  });
+});
+
+describe('normalizeError', () => {
+  it('preserves the native code, message and userInfo', () => {
+    const error = normalizeError(
+      nativeError('NoCredentialException', 'No saved credential'),
+      'signIn'
+    );
+
+    expect(error).toBeInstanceOf(GoogleAuthError);
+    expect(error.code).toBe(GoogleAuthErrorCodes.NOT_SIGNED_IN);
+    expect(error.message).toBe('No saved credential');
+    expect(error.userInfo).toEqual({
+      domain: 'native',
+      operation: 'signIn',
+      nativeCode: 'NoCredentialException',
+      nativeMessage: 'No saved credential',
+    });
+  });
+
+  it('wraps errors without a code using the fallback', () => {
+    const error = normalizeError(
+      new Error('boom'),
+      'getTokens',
+      GoogleAuthErrorCodes.GET_TOKENS_ERROR
+    );
+
+    expect(error.code).toBe(GoogleAuthErrorCodes.GET_TOKENS_ERROR);
+    expect(error.userInfo).toEqual({
+      operation: 'getTokens',
+      nativeMessage: 'boom',
+    });
+  });
+
+  it('tags existing GoogleAuthErrors with the operation once', () => {
+    const original = createErrorResponse(
+      GoogleAuthErrorCodes.NONCE_MISMATCH,
+      'Nonce mismatch',
+      { expected: 'a' }
+    );
+
+    const tagged = normalizeError(original, 'signIn');
+    expect(tagged.code).toBe(GoogleAuthErrorCodes.NONCE_MISMATCH);
+    expect(tagged.userInfo).toEqual({ expected: 'a', operation: 'signIn' });
+    expect(normalizeError(tagged, 'getFreshTokens')).toBe(tagged);
+  });
+});
+
+describe('classification', () => {
+  it('marks transient failures as retryable', () => {
+    const error = createErrorResponse(GoogleAuthErrorCodes.NETWORK_ERROR, '');
+
+    expect(error.isRetryable).toBe(true);
+    expect(error.isUserActionable).toBe(true);
+  });
+
+  it('marks cancellation as user-actionable but not retryable', () => {
+    const error = createErrorResponse(
+      GoogleAuthErrorCodes.SIGN_IN_CANCELLED,
+      ''
+    );
+
+    expect(error.isRetryable).toBe(false);
+    expect(error.isUserActionable).toBe(true);
+  });
+
+  it('marks configuration errors as neither', () => {
+    const error = createErrorResponse(GoogleAuthErrorCodes.INVALID_CONFIG, '');
+
+    expect(error.isRetryable).toBe(false);
+    expect(error.isUserActionable).toBe(false);
+  });
+});
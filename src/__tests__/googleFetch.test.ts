@@ -0,0 +1,135 @@
+import type { Spec } from '../NativeGoogleAuth';
+
+jest.mock('../NativeGoogleAuth', () => ({
+  __esModule: true,
+  default: {
+    getTokens: jest.fn(),
+    refreshTokens: jest.fn(),
+  },
+}));
+
+const { createGoogleFetch } = require('../index');
+const native: jest.Mocked<Spec> = require('../NativeGoogleAuth').default;
+
+const response = (status: number) => ({ status }) as Response;
+
+const authHeader = (fetchImpl: jest.Mock, call: number) =>
+  (fetchImpl.mock.calls[call][1].headers as Headers).get('Authorization');
+
+beforeEach(() => {
+  native.getTokens.mockReset();
+  native.refreshTokens.mockReset();
+  native.getTokens.mockResolvedValue({ idToken: 'id', accessToken: 'old' });
+  native.refreshTokens.mockResolvedValue({ idToken: 'id', accessToken: 'new' });
+});
+
+it('attaches the access token as a Bearer header', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(response(200));
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  const result = await googleFetch(
+    'https://www.googleapis.com/drive/v3/files',
+    {
+      headers: { Accept: 'application/json' },
+    }
+  );
+
+  expect(result.status).toBe(200);
+  expect(authHeader(fetchImpl, 0)).toBe('Bearer old');
+  expect((fetchImpl.mock.calls[0][1].headers as Headers).get('Accept')).toBe(
+    'application/json'
+  );
+});
+
+it('refreshes and retries once on 401', async () => {
+  const fetchImpl = jest
+    .fn()
+    .mockResolvedValueOnce(response(401))
+    .mockResolvedValueOnce(response(200));
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  const result = await googleFetch('https://www.googleapis.com/calendar/v3');
+
+  expect(result.status).toBe(200);
+  expect(native.refreshTokens).toHaveBeenCalledTimes(1);
+  expect(authHeader(fetchImpl, 1)).toBe('Bearer new');
+});
+
+it('throws TOKEN_EXPIRED when the retry is also rejected', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(response(401));
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  await expect(
+    googleFetch('https://www.googleapis.com/drive/v3/files')
+  ).rejects.toMatchObject({
+    code: 'TOKEN_EXPIRED',
+  });
+  expect(fetchImpl).toHaveBeenCalledTimes(2);
+});
+
+it('throws INVALID_TOKEN when no access token is available', async () => {
+  native.getTokens.mockResolvedValue({ idToken: 'id', accessToken: null });
+  const fetchImpl = jest.fn();
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  await expect(
+    googleFetch('https://www.googleapis.com/drive/v3/files')
+  ).rejects.toMatchObject({
+    code: 'INVALID_TOKEN',
+  });
+  expect(fetchImpl).not.toHaveBeenCalled();
+});
+
+it('throws NETWORK_ERROR when the request fails', async () => {
+  const fetchImpl = jest
+    .fn()
+    .mockRejectedValue(new TypeError('Network request failed'));
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  await expect(
+    googleFetch('https://www.googleapis.com/drive/v3/files')
+  ).rejects.toMatchObject({
+    code: 'NETWORK_ERROR',
+  });
+});
+
+it('sends the token to Google API subdomains', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(response(200));
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  await googleFetch('https://people.googleapis.com/v1/people/me');
+
+  expect(authHeader(fetchImpl, 0)).toBe('Bearer old');
+});
+
+it.each([
+  'https://example.com/api',
+  'https://googleapis.com.evil.com/',
+  'https://user@www.googleapis.com/',
+  'https://evil.com\\.googleapis.com/x',
+  'http://www.googleapis.com/drive/v3/files',
+])('refuses to send the token to %s', async (url) => {
+  const fetchImpl = jest.fn();
+  const googleFetch = createGoogleFetch({ fetch: fetchImpl });
+
+  await expect(googleFetch(url)).rejects.toMatchObject({
+    code: 'INVALID_TOKEN',
+    userInfo: { url },
+  });
+  expect(fetchImpl).not.toHaveBeenCalled();
+  expect(native.getTokens).not.toHaveBeenCalled();
+});
+
+it('uses allowedHosts instead of the Google defaults', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(response(200));
+  const googleFetch = createGoogleFetch({
+    fetch: fetchImpl,
+    allowedHosts: ['api.example.com'],
+  });
+
+  await googleFetch('https://api.example.com/v1/me');
+  expect(authHeader(fetchImpl, 0)).toBe('Bearer old');
+  await expect(
+    googleFetch('https://www.googleapis.com/drive/v3/files')
+  ).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+});
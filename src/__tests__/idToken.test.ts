@@ -0,0 +1,58 @@
+import {
+  decodeIdToken,
+  decodeIdTokenHeader,
+  getTokenExpiry,
+  isIdTokenExpired,
+} from '../idToken';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const NOW_SECONDS = Math.floor(Date.now() / 1000);
+
+const claims = {
+  iss: 'https://accounts.google.com',
+  aud: '1234-abc.apps.googleusercontent.com',
+  sub: '110169484474386276334',
+  email: 'zoë@example.com',
+  email_verified: true,
+  hd: 'example.com',
+  iat: NOW_SECONDS,
+  exp: NOW_SECONDS + 3600,
+  nonce: 'n-0S6_WzA2Mj',
+  locale: 'fr',
+};
+
+const token = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode(claims)}.c2ln`;
+
+it('decodes claims including non-ASCII characters', () => {
+  expect(decodeIdToken(token)).toEqual(claims);
+});
+
+it('decodes the header', () => {
+  expect(decodeIdTokenHeader(token)).toEqual({ alg: 'RS256', kid: 'key-1' });
+});
+
+it('returns expiry in milliseconds', () => {
+  expect(getTokenExpiry(token)).toBe(claims.exp * 1000);
+});
+
+it('checks expiry with clock skew', () => {
+  const expired = `${encode({ alg: 'RS256' })}.${encode({
+    ...claims,
+    exp: NOW_SECONDS - 30,
+  })}.c2ln`;
+
+  expect(isIdTokenExpired(token)).toBe(false);
+  expect(isIdTokenExpired(expired)).toBe(true);
+  expect(isIdTokenExpired(expired, 60)).toBe(false);
+});
+
+it('rejects malformed tokens with INVALID_TOKEN', () => {
+  expect(() => decodeIdToken('not-a-jwt')).toThrow(
+    expect.objectContaining({ code: 'INVALID_TOKEN' })
+  );
+  expect(() => decodeIdToken('a.%%%.c')).toThrow(
+    expect.objectContaining({ code: 'INVALID_TOKEN' })
+  );
+});
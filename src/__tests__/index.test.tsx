@@ -1 +1,913 @@
-it.todo('write a test');
+import type { Spec, User } from '../NativeGoogleAuth';
+
+jest.mock('../NativeGoogleAuth', () => ({
+  __esModule: true,
+  default: {
+    configure: jest.fn(),
+    signIn: jest.fn(),
+    signInSilently: jest.fn(),
+    hasPreviousSignIn: jest.fn(),
+    signOut: jest.fn(),
+    revokeAccess: jest.fn(),
+    getTokens: jest.fn(),
+    refreshTokens: jest.fn(),
+    isTokenExpired: jest.fn(),
+    getServerAuthCode: jest.fn(),
+    addScopes: jest.fn(),
+    getGrantedScopes: jest.fn(),
+    getCurrentUser: jest.fn(),
+    getAccounts: jest.fn(),
+    switchAccount: jest.fn(),
+    checkPlayServices: jest.fn(),
+  },
+}));
+
+const user: User = {
+  id: '1234',
+  userId: '1234',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+  familyName: 'Doe',
+  givenName: 'Jane',
+  emailVerified: null,
+  hostedDomain: null,
+  locale: null,
+};
+
+// Unsigned ID token carrying claims; only decoded, never verified
+const idTokenWith = (claims: object) =>
+  [
+    Buffer.from('{"alg":"RS256"}').toString('base64url'),
+    Buffer.from(JSON.stringify({ iat: 1, ...claims })).toString('base64url'),
+    'sig',
+  ].join('.');
+
+let GoogleAuth: typeof import('../index').GoogleAuth;
+let native: jest.Mocked<Spec>;
+
+beforeEach(() => {
+  jest.resetModules();
+  GoogleAuth = require('../index').GoogleAuth;
+  native = require('../NativeGoogleAuth').default;
+  Object.values(native).forEach((fn) => (fn as jest.Mock).mockReset());
+  // handleError logs every failure; keep test output readable
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('configure', () => {
+  it('throws a single INVALID_CONFIG error listing every issue', async () => {
+    const error = await GoogleAuth.configure({
+      webClientId: 'bad',
+      profileImageSize: -1,
+    }).catch((e) => e);
+
+    expect(error.code).toBe('INVALID_CONFIG');
+    expect(error.userInfo.issues).toEqual([
+      expect.objectContaining({
+        field: 'webClientId',
+        code: 'INVALID_CLIENT_ID_FORMAT',
+      }),
+      expect.objectContaining({
+        field: 'profileImageSize',
+        code: 'INVALID_PROFILE_IMAGE_SIZE',
+      }),
+    ]);
+    expect(native.configure).not.toHaveBeenCalled();
+  });
+
+  it('passes a valid configuration to native', async () => {
+    native.configure.mockResolvedValue();
+    const params = { webClientId: '1234-abc.apps.googleusercontent.com' };
+
+    await GoogleAuth.configure(params);
+
+    expect(native.configure).toHaveBeenCalledWith(params);
+  });
+
+  it('warns about deprecated scopes without rejecting them', async () => {
+    native.configure.mockResolvedValue();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await GoogleAuth.configure({
+      scopes: ['https://www.googleapis.com/auth/photoslibrary'],
+    });
+
+    expect(native.configure).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Use https://www.googleapis.com/auth/photoslibrary.appendonly or https://www.googleapis.com/auth/photospicker.mediaitems.readonly instead'
+      )
+    );
+  });
+});
+
+describe('error normalization', () => {
+  const rejectWith = (code: string, message: string) =>
+    Promise.reject(Object.assign(new Error(message), { code }));
+
+  it.each([
+    ['configure', () => GoogleAuth.configure({})],
+    ['signIn', () => GoogleAuth.signIn()],
+    ['signOut', () => GoogleAuth.signOut()],
+    ['revokeAccess', () => GoogleAuth.revokeAccess()],
+    ['getTokens', () => GoogleAuth.getTokens()],
+    ['refreshTokens', () => GoogleAuth.refreshTokens()],
+    ['isTokenExpired', () => GoogleAuth.isTokenExpired()],
+    ['getCurrentUser', () => GoogleAuth.getCurrentUser()],
+    ['getAccounts', () => GoogleAuth.getAccounts()],
+    ['switchAccount', () => GoogleAuth.switchAccount('1234')],
+    ['checkPlayServices', () => GoogleAuth.checkPlayServices()],
+  ] as const)('%s rejects with a GoogleAuthError', async (operation, call) => {
+    const { GoogleAuthError } = require('../errors');
+    (native[operation] as jest.Mock).mockImplementation(() =>
+      rejectWith('NETWORK_ERROR', 'Offline')
+    );
+
+    const error = await call().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GoogleAuthError);
+    expect(error).toMatchObject({
+      code: 'NETWORK_ERROR',
+      message: 'Offline',
+      isRetryable: true,
+      userInfo: {
+        operation,
+        nativeCode: 'NETWORK_ERROR',
+        nativeMessage: 'Offline',
+      },
+    });
+  });
+
+  it('uses an operation-specific code for unknown native codes', async () => {
+    native.signOut.mockImplementation(() =>
+      rejectWith('E_UNEXPECTED', 'Keychain locked')
+    );
+
+    await expect(GoogleAuth.signOut()).rejects.toMatchObject({
+      code: 'SIGN_OUT_ERROR',
+      userInfo: { nativeCode: 'E_UNEXPECTED' },
+    });
+  });
+});
+
+describe('onAuthStateChanged', () => {
+  it('emits the user after a successful sign-in', async () => {
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: 'id-token',
+        accessToken: 'access-token',
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await GoogleAuth.signIn();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(user);
+  });
+
+  it('does not emit for cancelled sign-in', async () => {
+    native.signIn.mockResolvedValue({ type: 'cancelled' });
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await GoogleAuth.signIn();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('emits null after sign-out', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    native.signOut.mockResolvedValue();
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await GoogleAuth.getCurrentUser();
+    await GoogleAuth.signOut();
+
+    expect(listener.mock.calls).toEqual([[user], [null]]);
+  });
+
+  it('emits when only profile claims change', async () => {
+    const updated = {
+      ...user,
+      emailVerified: true,
+      hostedDomain: 'example.com',
+      locale: 'en-GB',
+    };
+    native.getCurrentUser
+      .mockResolvedValueOnce(user)
+      .mockResolvedValueOnce(updated);
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await GoogleAuth.getCurrentUser();
+    await GoogleAuth.getCurrentUser();
+
+    expect(listener.mock.calls).toEqual([[user], [updated]]);
+  });
+
+  it('replays the current user to late subscribers', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    await GoogleAuth.getCurrentUser();
+
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    expect(listener).toHaveBeenCalledWith(user);
+  });
+
+  it('does not replay before the state is known', () => {
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops emitting after unsubscribe', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    const listener = jest.fn();
+    const unsubscribe = GoogleAuth.onAuthStateChanged(listener);
+
+    unsubscribe();
+    await GoogleAuth.getCurrentUser();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('onTokensChanged', () => {
+  it('emits refreshed tokens only when they change', async () => {
+    const tokens = { idToken: 'id', accessToken: 'access', expiresAt: 1000 };
+    native.refreshTokens.mockResolvedValue(tokens);
+    native.getTokens.mockResolvedValue(tokens);
+    const listener = jest.fn();
+    GoogleAuth.onTokensChanged(listener);
+
+    await GoogleAuth.refreshTokens();
+    await GoogleAuth.getTokens();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(tokens);
+  });
+
+  it('takes the expiry of signed-in tokens from the ID token', async () => {
+    const idToken = idTokenWith({ exp: 1_700_003_600 });
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken,
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+    const listener = jest.fn();
+    GoogleAuth.onTokensChanged(listener);
+
+    await GoogleAuth.signIn();
+
+    expect(listener).toHaveBeenCalledWith({
+      idToken,
+      accessToken: null,
+      expiresAt: 1_700_003_600_000,
+    });
+  });
+});
+
+describe('refreshTokens', () => {
+  it('shares one native refresh between concurrent callers', async () => {
+    const tokens = { idToken: 'id', accessToken: 'access', expiresAt: 1000 };
+    native.refreshTokens.mockResolvedValue(tokens);
+
+    const results = await Promise.all([
+      GoogleAuth.refreshTokens(),
+      GoogleAuth.refreshTokens(),
+    ]);
+
+    expect(native.refreshTokens).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([tokens, tokens]);
+  });
+});
+
+describe('getFreshTokens', () => {
+  it('returns cached tokens that are still valid', async () => {
+    const tokens = {
+      idToken: 'id',
+      accessToken: 'access',
+      expiresAt: Date.now() + 3600 * 1000,
+    };
+    native.refreshTokens.mockResolvedValue(tokens);
+    await GoogleAuth.refreshTokens();
+
+    const result = await GoogleAuth.getFreshTokens({ minValiditySeconds: 60 });
+
+    expect(result).toEqual(tokens);
+    expect(native.refreshTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the ID token expiry when native getTokens omits expiresAt', async () => {
+    const idToken = idTokenWith({
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    });
+    native.getTokens.mockResolvedValue({ idToken, accessToken: 'access' });
+    await GoogleAuth.getTokens();
+
+    const result = await GoogleAuth.getFreshTokens();
+
+    expect(result.expiresAt).toBeGreaterThan(Date.now());
+    expect(native.refreshTokens).not.toHaveBeenCalled();
+  });
+
+  it('refreshes once for concurrent callers when tokens are about to expire', async () => {
+    const stale = { idToken: 'old', accessToken: 'old', expiresAt: Date.now() };
+    const fresh = {
+      idToken: 'new',
+      accessToken: 'new',
+      expiresAt: Date.now() + 3600 * 1000,
+    };
+    native.refreshTokens.mockResolvedValueOnce(stale);
+    await GoogleAuth.refreshTokens();
+    native.refreshTokens.mockResolvedValueOnce(fresh);
+
+    const results = await Promise.all([
+      GoogleAuth.getFreshTokens(),
+      GoogleAuth.getFreshTokens(),
+    ]);
+
+    expect(native.refreshTokens).toHaveBeenCalledTimes(2);
+    expect(results).toEqual([fresh, fresh]);
+  });
+
+  it('maps refresh failures to GoogleAuthError codes', async () => {
+    native.refreshTokens.mockRejectedValue({
+      code: 'TOKEN_REFRESH_FAILED',
+      message: 'failed',
+    });
+
+    await expect(GoogleAuth.getFreshTokens()).rejects.toMatchObject({
+      name: 'GoogleAuthError',
+      code: 'TOKEN_REFRESH_FAILED',
+      userInfo: expect.objectContaining({ operation: 'refreshTokens' }),
+    });
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('startAutoRefresh', () => {
+  afterEach(() => {
+    GoogleAuth.stopAutoRefresh();
+    jest.useRealTimers();
+  });
+
+  it('keeps refreshing on schedule after getTokens', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    const idToken = idTokenWith({ exp: 1_700_003_600 });
+    native.getTokens.mockResolvedValue({ idToken, accessToken: 'access' });
+    native.refreshTokens.mockResolvedValue({ idToken, accessToken: 'access' });
+    GoogleAuth.startAutoRefresh({ leadTimeSeconds: 300 });
+
+    await GoogleAuth.getTokens();
+    await jest.advanceTimersByTimeAsync(3300 * 1000 - 1);
+    expect(native.refreshTokens).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(native.refreshTokens).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('signIn with nonce', () => {
+  const idTokenWithNonce = (nonce: string) =>
+    [
+      Buffer.from('{"alg":"RS256"}').toString('base64url'),
+      Buffer.from(JSON.stringify({ nonce, exp: 2, iat: 1 })).toString(
+        'base64url'
+      ),
+      'sig',
+    ].join('.');
+
+  it('passes the nonce to native and accepts a matching claim', async () => {
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: idTokenWithNonce('abc'),
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+
+    const response = await GoogleAuth.signIn({ nonce: 'abc' });
+
+    expect(native.signIn).toHaveBeenCalledWith({ nonce: 'abc' });
+    expect(response.type).toBe('success');
+  });
+
+  it('rejects a mismatched nonce and signs out natively', async () => {
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: idTokenWithNonce('replayed'),
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+    native.signOut.mockResolvedValue();
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await expect(GoogleAuth.signIn({ nonce: 'abc' })).rejects.toMatchObject({
+      code: 'NONCE_MISMATCH',
+    });
+    expect(native.signOut).toHaveBeenCalledWith({ userId: user.userId });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('hashes nonces with SHA-256', () => {
+    const { hashNonce } = require('../index');
+
+    expect(hashNonce('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+});
+
+describe('signIn options', () => {
+  const signedIn = () =>
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: 'e30.eyJleHAiOjIsImlhdCI6MX0.sig',
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+
+  it('merges per-call options over the configuration', async () => {
+    native.configure.mockResolvedValue();
+    signedIn();
+    await GoogleAuth.configure({
+      credentialManagerMode: 'auto',
+      accountName: 'jane@example.com',
+      scopes: ['https://www.googleapis.com/auth/drive.file'],
+    });
+
+    await GoogleAuth.signIn({
+      mode: 'interactive',
+      scopes: [
+        'https://www.googleapis.com/auth/drive.file',
+        'https://www.googleapis.com/auth/calendar.readonly',
+      ],
+    });
+
+    expect(native.signIn).toHaveBeenCalledWith({
+      mode: 'interactive',
+      loginHint: 'jane@example.com',
+      scopes: ['https://www.googleapis.com/auth/calendar.readonly'],
+    });
+  });
+
+  it('rejects invalid options without calling native', async () => {
+    const error = await GoogleAuth.signIn({
+      mode: 'always' as 'auto',
+      scopes: ['drive'],
+    }).catch((e) => e);
+
+    expect(error.code).toBe('INVALID_CONFIG');
+    expect(
+      error.userInfo.issues.map((issue: { field: string }) => issue.field)
+    ).toEqual(['mode', 'scopes']);
+    expect(native.signIn).not.toHaveBeenCalled();
+  });
+});
+
+describe('signInSilently', () => {
+  const idTokenWithClaims = (claims: object) =>
+    [
+      Buffer.from('{"alg":"RS256"}').toString('base64url'),
+      Buffer.from(JSON.stringify({ ...claims, exp: 2, iat: 1 })).toString(
+        'base64url'
+      ),
+      'sig',
+    ].join('.');
+
+  it('publishes a restored session', async () => {
+    native.signInSilently.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: idTokenWithClaims({}),
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    const response = await GoogleAuth.signInSilently();
+
+    expect(response.type).toBe('success');
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: user.userId })
+    );
+    expect(native.signIn).not.toHaveBeenCalled();
+  });
+
+  it('passes noSavedCredentialFound through', async () => {
+    native.signInSilently.mockResolvedValue({ type: 'noSavedCredentialFound' });
+
+    await expect(GoogleAuth.signInSilently()).resolves.toEqual({
+      type: 'noSavedCredentialFound',
+    });
+  });
+
+  it('signs out restored accounts outside the allowed domains', async () => {
+    native.configure.mockResolvedValue();
+    native.signOut.mockResolvedValue();
+    await GoogleAuth.configure({ hostedDomain: 'example.com' });
+    native.signInSilently.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: idTokenWithClaims({ hd: 'other.com' }),
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+
+    await expect(GoogleAuth.signInSilently()).rejects.toMatchObject({
+      code: 'DOMAIN_NOT_ALLOWED',
+    });
+    expect(native.signOut).toHaveBeenCalledWith({ userId: user.userId });
+  });
+
+  it('reports whether a previous sign-in exists', async () => {
+    native.hasPreviousSignIn.mockResolvedValue(true);
+
+    await expect(GoogleAuth.hasPreviousSignIn()).resolves.toBe(true);
+  });
+});
+
+describe('domain restrictions', () => {
+  const idTokenWithClaims = (claims: object) =>
+    [
+      Buffer.from('{"alg":"RS256"}').toString('base64url'),
+      Buffer.from(JSON.stringify({ ...claims, exp: 2, iat: 1 })).toString(
+        'base64url'
+      ),
+      'sig',
+    ].join('.');
+
+  const signInAs = (claims: object) =>
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: idTokenWithClaims(claims),
+        accessToken: null,
+        serverAuthCode: null,
+        scopes: [],
+        user,
+      },
+    });
+
+  beforeEach(async () => {
+    native.configure.mockResolvedValue();
+    await GoogleAuth.configure({ hostedDomain: 'example.com' });
+  });
+
+  it('allows accounts from the configured hosted domain', async () => {
+    signInAs({ hd: 'example.com' });
+
+    const response = await GoogleAuth.signIn();
+
+    expect(response.type).toBe('success');
+    expect(native.signOut).not.toHaveBeenCalled();
+  });
+
+  it('signs out and rejects accounts from other domains', async () => {
+    signInAs({ hd: 'other.com' });
+    native.signOut.mockResolvedValue();
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await expect(GoogleAuth.signIn()).rejects.toMatchObject({
+      code: 'DOMAIN_NOT_ALLOWED',
+      userInfo: { hostedDomain: 'other.com' },
+    });
+    expect(native.signOut).toHaveBeenCalledWith({ userId: user.userId });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('enforces a per-call hosted domain instead of the configured one', async () => {
+    signInAs({ hd: 'example.com' });
+    native.signOut.mockResolvedValue();
+
+    await expect(
+      GoogleAuth.signIn({ hostedDomain: 'partner.com' })
+    ).rejects.toMatchObject({ code: 'DOMAIN_NOT_ALLOWED' });
+    expect(native.signIn).toHaveBeenCalledWith({ hostedDomain: 'partner.com' });
+  });
+});
+
+describe('server auth code', () => {
+  it('returns serverAuthCode and scopes from signIn', async () => {
+    native.signIn.mockResolvedValue({
+      type: 'success',
+      data: {
+        idToken: 'id-token',
+        accessToken: 'access-token',
+        serverAuthCode: '4/server-code',
+        scopes: ['openid', 'email', 'profile'],
+        user,
+      },
+    });
+
+    const response = await GoogleAuth.signIn();
+
+    expect(response).toMatchObject({
+      type: 'success',
+      data: {
+        serverAuthCode: '4/server-code',
+        scopes: ['openid', 'email', 'profile'],
+      },
+    });
+  });
+
+  it('returns the latest code from getServerAuthCode', async () => {
+    native.getServerAuthCode.mockResolvedValue('4/server-code');
+
+    await expect(GoogleAuth.getServerAuthCode()).resolves.toBe('4/server-code');
+  });
+
+  it('returns null when no code was issued', async () => {
+    native.getServerAuthCode.mockResolvedValue(null);
+
+    await expect(GoogleAuth.getServerAuthCode()).resolves.toBeNull();
+  });
+
+  it('maps native failures to GoogleAuthError', async () => {
+    native.getServerAuthCode.mockRejectedValue(
+      Object.assign(new Error('Not configured'), { code: 'NOT_CONFIGURED' })
+    );
+
+    await expect(GoogleAuth.getServerAuthCode()).rejects.toMatchObject({
+      code: 'NOT_CONFIGURED',
+    });
+  });
+});
+
+describe('addScopes', () => {
+  const DRIVE = 'https://www.googleapis.com/auth/drive.readonly';
+  const CALENDAR = 'https://www.googleapis.com/auth/calendar.readonly';
+
+  it('requests only missing scopes and reports granted and denied', async () => {
+    native.getGrantedScopes.mockResolvedValue(['email', DRIVE]);
+    native.addScopes.mockResolvedValue({
+      grantedScopes: ['email', DRIVE],
+      accessToken: 'access',
+      idToken: 'id',
+    });
+
+    const result = await GoogleAuth.addScopes([DRIVE, CALENDAR]);
+
+    expect(native.addScopes).toHaveBeenCalledWith([CALENDAR]);
+    expect(result).toEqual({
+      grantedScopes: [DRIVE],
+      deniedScopes: [CALENDAR],
+    });
+  });
+
+  it('rejects with NOT_SIGNED_IN when no user is signed in', async () => {
+    native.getGrantedScopes.mockResolvedValue([]);
+    native.addScopes.mockRejectedValue(
+      Object.assign(new Error('No user is currently signed in'), {
+        code: 'NOT_SIGNED_IN',
+      })
+    );
+
+    await expect(GoogleAuth.addScopes([DRIVE])).rejects.toMatchObject({
+      code: 'NOT_SIGNED_IN',
+    });
+  });
+
+  it('skips the native request when every scope is granted', async () => {
+    native.getGrantedScopes.mockResolvedValue([DRIVE]);
+
+    const result = await GoogleAuth.addScopes([DRIVE]);
+
+    expect(native.addScopes).not.toHaveBeenCalled();
+    expect(result).toEqual({ grantedScopes: [DRIVE], deniedScopes: [] });
+  });
+
+  it('publishes updated tokens', async () => {
+    native.getGrantedScopes.mockResolvedValue([]);
+    native.addScopes.mockResolvedValue({
+      grantedScopes: [DRIVE],
+      accessToken: 'access',
+      idToken: 'id',
+      expiresAt: 1000,
+    });
+    const listener = jest.fn();
+    GoogleAuth.onTokensChanged(listener);
+
+    await GoogleAuth.addScopes([DRIVE]);
+
+    expect(listener).toHaveBeenCalledWith({
+      idToken: 'id',
+      accessToken: 'access',
+      expiresAt: 1000,
+    });
+  });
+
+  it('validates scopes before calling native', async () => {
+    await expect(GoogleAuth.addScopes(['drive'])).rejects.toMatchObject({
+      code: 'INVALID_SCOPE_FORMAT',
+    });
+    expect(native.getGrantedScopes).not.toHaveBeenCalled();
+  });
+});
+
+describe('multiple accounts', () => {
+  const other: User = {
+    ...user,
+    id: '5678',
+    userId: '5678',
+    email: 'sam@example.com',
+    name: 'Sam Doe',
+  };
+  const tokens = { idToken: 'id-5678', accessToken: 'access', expiresAt: 1 };
+
+  it('publishes the accounts returned by getAccounts', async () => {
+    native.getAccounts.mockResolvedValue([user, other]);
+    const listener = jest.fn();
+    GoogleAuth.onAccountsChanged(listener);
+
+    await expect(GoogleAuth.getAccounts()).resolves.toEqual([user, other]);
+    expect(listener).toHaveBeenCalledWith([user, other]);
+  });
+
+  it('makes the switched account active and loads its tokens', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    native.switchAccount.mockResolvedValue(other);
+    native.getTokens.mockResolvedValue(tokens);
+    await GoogleAuth.getCurrentUser();
+    const userListener = jest.fn();
+    const tokensListener = jest.fn();
+    GoogleAuth.onAuthStateChanged(userListener);
+    GoogleAuth.onTokensChanged(tokensListener);
+
+    await expect(GoogleAuth.switchAccount('5678')).resolves.toEqual(other);
+
+    expect(native.getTokens).toHaveBeenCalledWith('5678');
+    expect(userListener.mock.calls).toEqual([[user], [other]]);
+    expect(tokensListener.mock.calls).toEqual([[null], [tokens]]);
+  });
+
+  it('rejects unknown accounts with ACCOUNT_NOT_FOUND', async () => {
+    native.switchAccount.mockRejectedValue(
+      Object.assign(new Error('Unknown account'), {
+        code: 'ACCOUNT_NOT_FOUND',
+      })
+    );
+
+    await expect(GoogleAuth.switchAccount('nope')).rejects.toMatchObject({
+      code: 'ACCOUNT_NOT_FOUND',
+    });
+  });
+
+  it('signs out one account and keeps the active one', async () => {
+    native.getAccounts.mockResolvedValue([user, other]);
+    native.getCurrentUser.mockResolvedValue(user);
+    native.signOut.mockResolvedValue();
+    await GoogleAuth.getAccounts();
+    await GoogleAuth.getCurrentUser();
+    const userListener = jest.fn();
+    const accountsListener = jest.fn();
+    GoogleAuth.onAuthStateChanged(userListener);
+    GoogleAuth.onAccountsChanged(accountsListener);
+
+    await GoogleAuth.signOut({ userId: '5678' });
+
+    expect(native.signOut).toHaveBeenCalledWith({ userId: '5678' });
+    expect(userListener.mock.calls).toEqual([[user]]);
+    expect(accountsListener.mock.calls).toEqual([[[user, other]], [[user]]]);
+  });
+
+  it('clears the active account when it is signed out', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    native.signOut.mockResolvedValue();
+    await GoogleAuth.getCurrentUser();
+    const listener = jest.fn();
+    GoogleAuth.onAuthStateChanged(listener);
+
+    await GoogleAuth.signOut({ userId: user.userId });
+
+    expect(listener.mock.calls).toEqual([[user], [null]]);
+  });
+
+  it('does not publish tokens of inactive accounts', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    native.getTokens.mockResolvedValue(tokens);
+    await GoogleAuth.getCurrentUser();
+    const listener = jest.fn();
+    GoogleAuth.onTokensChanged(listener);
+
+    await expect(GoogleAuth.getTokens('5678')).resolves.toEqual(tokens);
+
+    expect(native.getTokens).toHaveBeenCalledWith('5678');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('revokeAccess', () => {
+  it('revokes natively and emits a signed-out state', async () => {
+    native.getCurrentUser.mockResolvedValue(user);
+    native.revokeAccess.mockResolvedValue({ status: 'revoked' });
+    await GoogleAuth.getCurrentUser();
+    const userListener = jest.fn();
+    const accountsListener = jest.fn();
+    GoogleAuth.onAuthStateChanged(userListener);
+    GoogleAuth.onAccountsChanged(accountsListener);
+
+    await expect(GoogleAuth.revokeAccess()).resolves.toEqual({
+      status: 'revoked',
+    });
+
+    expect(userListener.mock.calls).toEqual([[user], [null]]);
+    expect(accountsListener.mock.calls).toEqual([[[user]], [[]]]);
+  });
+
+  it('falls back to the revocation endpoint when native is not implemented', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: 'invalid_token' }),
+    } as Response);
+    native.getCurrentUser.mockResolvedValue(user);
+    native.revokeAccess.mockRejectedValue(
+      Object.assign(new Error('Not implemented'), { code: 'NOT_IMPLEMENTED' })
+    );
+    native.getTokens.mockResolvedValue({ idToken: 'id', accessToken: 'at' });
+    native.signOut.mockResolvedValue();
+    await GoogleAuth.getCurrentUser();
+
+    await expect(GoogleAuth.revokeAccess()).resolves.toEqual({
+      status: 'alreadyRevoked',
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://oauth2.googleapis.com/revoke',
+      expect.objectContaining({ body: 'token=at' })
+    );
+    expect(native.signOut).toHaveBeenCalledWith({ userId: user.userId });
+  });
+
+  it('uses REVOKE_ERROR for unknown native failures', async () => {
+    native.revokeAccess.mockRejectedValue(
+      Object.assign(new Error('Server error'), { code: 'E_HTTP' })
+    );
+
+    await expect(GoogleAuth.revokeAccess()).rejects.toMatchObject({
+      code: 'REVOKE_ERROR',
+    });
+  });
+});
+
+describe('missing native module', () => {
+  it('rejects calls with NATIVE_MODULE_NOT_FOUND', async () => {
+    const nativeModule = require('../NativeGoogleAuth');
+    nativeModule.default = null;
+
+    try {
+      expect(GoogleAuth.isAvailable()).toBe(false);
+      await expect(GoogleAuth.signIn()).rejects.toMatchObject({
+        code: 'NATIVE_MODULE_NOT_FOUND',
+        message: expect.stringContaining('Expo Go'),
+      });
+    } finally {
+      nativeModule.default = native;
+    }
+  });
+
+  it('reports a linked module as available', () => {
+    expect(GoogleAuth.isAvailable()).toBe(true);
+  });
+});
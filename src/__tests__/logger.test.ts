@@ -0,0 +1,104 @@
+import type { Logger } from '../logger';
+
+let logger: typeof import('../logger');
+let sink: jest.Mocked<Logger>;
+
+beforeEach(() => {
+  jest.resetModules();
+  logger = require('../logger');
+  sink = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+});
+
+describe('redact', () => {
+  it('redacts tokens, emails and client IDs in strings', () => {
+    expect(
+      logger.redact(
+        'jane.doe@example.com used 1234-abcdefgh.apps.googleusercontent.com with ya29.a0AfH6SM and eyJhbGci.eyJzdWIi.c2ln'
+      )
+    ).toBe(
+      'j***@example.com used 1234-abc****.com with [REDACTED] and [REDACTED]'
+    );
+  });
+
+  it('redacts credential fields and nested values', () => {
+    expect(
+      logger.redact({
+        idToken: 'anything',
+        accessToken: null,
+        user: { email: 'jane@example.com', name: 'Jane' },
+        scopes: ['email'],
+      })
+    ).toEqual({
+      idToken: '[REDACTED]',
+      accessToken: null,
+      user: { email: 'j***@example.com', name: 'Jane' },
+      scopes: ['email'],
+    });
+  });
+
+  it('keeps error details as a plain object', () => {
+    const error = Object.assign(new Error('Failed for jane@example.com'), {
+      code: 'SIGN_IN_ERROR',
+    });
+
+    expect(logger.redact(error)).toEqual({
+      name: 'Error',
+      message: 'Failed for j***@example.com',
+      code: 'SIGN_IN_ERROR',
+    });
+  });
+
+  it('handles circular references', () => {
+    const value: Record<string, unknown> = { name: 'loop' };
+    value.self = value;
+
+    expect(logger.redact(value)).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
+
+describe('setLogger', () => {
+  it('forwards redacted entries at or above the level', () => {
+    logger.setLogger(sink, { level: 'info' });
+
+    logger.log.debug('hidden');
+    logger.log.info('signed in', { idToken: 'secret' });
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).toHaveBeenCalledWith('GoogleAuth: signed in', {
+      idToken: '[REDACTED]',
+    });
+  });
+
+  it('can be silenced', () => {
+    logger.setLogger(sink);
+    logger.setLogLevel('silent');
+
+    logger.log.error('failure');
+
+    expect(sink.error).not.toHaveBeenCalled();
+  });
+
+  it('can be disabled with null', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    logger.setLogger(null);
+
+    logger.log.error('failure');
+
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('ignores errors thrown by the logger', () => {
+    sink.error.mockImplementation(() => {
+      throw new Error('broken sink');
+    });
+    logger.setLogger(sink);
+
+    expect(() => logger.log.error('failure')).not.toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+import type { User } from '../NativeGoogleAuth';
+import { getProfilePhotoUrl, withProfileClaims } from '../profile';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const NOW_SECONDS = Math.floor(Date.now() / 1000);
+
+const idToken = (claims: object) =>
+  `${encode({ alg: 'RS256' })}.${encode({
+    iat: NOW_SECONDS,
+    exp: NOW_SECONDS + 3600,
+    ...claims,
+  })}.c2ln`;
+
+const user: User = {
+  id: '110169484474386276334',
+  userId: '110169484474386276334',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+  familyName: 'Doe',
+  givenName: 'Jane',
+  emailVerified: null,
+  hostedDomain: null,
+  locale: null,
+};
+
+describe('withProfileClaims', () => {
+  it('fills missing fields from the ID token', () => {
+    const token = idToken({
+      sub: user.userId,
+      email_verified: true,
+      hd: 'example.com',
+      locale: 'fr',
+    });
+
+    expect(withProfileClaims(user, token)).toEqual({
+      ...user,
+      emailVerified: true,
+      hostedDomain: 'example.com',
+      locale: 'fr',
+    });
+  });
+
+  it('keeps values provided by the native module', () => {
+    const token = idToken({ sub: user.userId, locale: 'fr' });
+
+    expect(withProfileClaims({ ...user, locale: 'de' }, token).locale).toBe(
+      'de'
+    );
+  });
+
+  it('reads boolean claims encoded as strings', () => {
+    const token = idToken({ sub: user.userId, email_verified: 'true' });
+
+    expect(withProfileClaims(user, token).emailVerified).toBe(true);
+  });
+
+  it('ignores tokens of another account and undecodable tokens', () => {
+    const token = idToken({ sub: 'other', hd: 'example.com' });
+
+    expect(withProfileClaims(user, token)).toEqual(user);
+    expect(withProfileClaims(user, 'not-a-jwt')).toEqual(user);
+    expect(withProfileClaims(user)).toEqual(user);
+  });
+});
+
+describe('getProfilePhotoUrl', () => {
+  const photo = (url: string | null) => ({ photo: url });
+
+  it('replaces the sizing suffix', () => {
+    expect(
+      getProfilePhotoUrl(
+        photo('https://lh3.googleusercontent.com/a/ACg8oc=s96-c'),
+        256
+      )
+    ).toBe('https://lh3.googleusercontent.com/a/ACg8oc=s256-c');
+  });
+
+  it('appends a sizing suffix when there is none', () => {
+    expect(
+      getProfilePhotoUrl(
+        photo('https://lh3.googleusercontent.com/a/ACg8oc'),
+        48
+      )
+    ).toBe('https://lh3.googleusercontent.com/a/ACg8oc=s48-c');
+  });
+
+  it('rewrites legacy path segments and sz parameters', () => {
+    expect(
+      getProfilePhotoUrl(
+        photo('https://lh3.googleusercontent.com/-abc/AAAA/s96-c/photo.jpg'),
+        200
+      )
+    ).toBe('https://lh3.googleusercontent.com/-abc/AAAA/s200-c/photo.jpg');
+    expect(
+      getProfilePhotoUrl(
+        photo('https://lh3.googleusercontent.com/-abc/photo.jpg?sz=50'),
+        200
+      )
+    ).toBe('https://lh3.googleusercontent.com/-abc/photo.jpg?sz=200');
+  });
+
+  it('returns other URLs unchanged and null without a photo', () => {
+    expect(
+      getProfilePhotoUrl(photo('https://example.com/avatar.png'), 64)
+    ).toBe('https://example.com/avatar.png');
+    expect(getProfilePhotoUrl(photo(null), 64)).toBeNull();
+    expect(getProfilePhotoUrl(null, 64)).toBeNull();
+  });
+
+  it('rejects sizes out of range', () => {
+    expect(() => getProfilePhotoUrl(photo(null), 0)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PROFILE_IMAGE_SIZE' })
+    );
+    expect(() => getProfilePhotoUrl(photo(null), 12.5)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PROFILE_IMAGE_SIZE' })
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { REVOKE_ENDPOINT, revokeToken } from '../revoke';
+
+const response = (status: number, body?: object) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  }) as Response;
+
+it('posts the token to the revocation endpoint', async () => {
+  const fetchImpl = jest.fn().mockResolvedValue(response(200));
+
+  await expect(revokeToken('ya29.token', fetchImpl)).resolves.toBe('revoked');
+  expect(fetchImpl).toHaveBeenCalledWith(REVOKE_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: 'token=ya29.token',
+  });
+});
+
+it('reports tokens Google no longer knows as already revoked', async () => {
+  const fetchImpl = jest
+    .fn()
+    .mockResolvedValue(response(400, { error: 'invalid_token' }));
+
+  await expect(revokeToken('ya29.token', fetchImpl)).resolves.toBe(
+    'alreadyRevoked'
+  );
+});
+
+it('rejects other failures with REVOKE_ERROR', async () => {
+  const fetchImpl = jest
+    .fn()
+    .mockResolvedValue(response(503, { error: 'backend_error' }));
+
+  await expect(revokeToken('ya29.token', fetchImpl)).rejects.toMatchObject({
+    code: 'REVOKE_ERROR',
+    userInfo: { status: 503, error: 'backend_error' },
+  });
+});
+
+it('rejects network failures with NETWORK_ERROR', async () => {
+  const fetchImpl = jest.fn().mockRejectedValue(new Error('Offline'));
+
+  await expect(revokeToken('ya29.token', fetchImpl)).rejects.toMatchObject({
+    code: 'NETWORK_ERROR',
+    message: 'Offline',
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  GoogleAuthScopes,
+  describeScopes,
+  getScopeInfo,
+  isRestrictedScope,
+  isSensitiveScope,
+  normalizeScopes,
+} from '../scopes';
+
+it('registers metadata for every catalog scope', () => {
+  Object.values(GoogleAuthScopes).forEach((scope) => {
+    expect(getScopeInfo(scope)).toEqual(expect.objectContaining({ scope }));
+  });
+});
+
+it('links read-write scopes to their readonly variant', () => {
+  const drive = getScopeInfo(GoogleAuthScopes.DRIVE);
+
+  expect(drive?.readonlyVariant).toBe(GoogleAuthScopes.DRIVE_READONLY);
+  expect(getScopeInfo(drive!.readonlyVariant!)?.supersededBy).toContain(
+    GoogleAuthScopes.DRIVE
+  );
+});
+
+it('classifies sensitivity', () => {
+  expect(isSensitiveScope(GoogleAuthScopes.EMAIL)).toBe(false);
+  expect(isSensitiveScope(GoogleAuthScopes.CALENDAR)).toBe(true);
+  expect(isRestrictedScope(GoogleAuthScopes.CALENDAR)).toBe(false);
+  expect(isRestrictedScope(GoogleAuthScopes.GMAIL_READONLY)).toBe(true);
+  expect(isSensitiveScope('https://www.googleapis.com/auth/unknown')).toBe(
+    true
+  );
+});
+
+it('dedupes scopes and drops those included by a broader one', () => {
+  expect(
+    normalizeScopes([
+      GoogleAuthScopes.EMAIL,
+      GoogleAuthScopes.DRIVE_READONLY,
+      GoogleAuthScopes.DRIVE,
+      GoogleAuthScopes.EMAIL,
+      GoogleAuthScopes.CALENDAR_EVENTS_READONLY,
+      'https://www.googleapis.com/auth/custom',
+    ])
+  ).toEqual([
+    GoogleAuthScopes.EMAIL,
+    GoogleAuthScopes.DRIVE,
+    GoogleAuthScopes.CALENDAR_EVENTS_READONLY,
+    'https://www.googleapis.com/auth/custom',
+  ]);
+});
+
+it('describes normalized scopes for consent UI', () => {
+  expect(
+    describeScopes([
+      GoogleAuthScopes.SPREADSHEETS_READONLY,
+      GoogleAuthScopes.SPREADSHEETS,
+      'https://www.googleapis.com/auth/custom',
+    ])
+  ).toEqual([
+    {
+      scope: GoogleAuthScopes.SPREADSHEETS,
+      api: 'Google Sheets',
+      sensitivity: 'sensitive',
+      description:
+        'See, edit, create and delete all your Google Sheets spreadsheets',
+    },
+    {
+      scope: 'https://www.googleapis.com/auth/custom',
+      api: null,
+      sensitivity: null,
+      description: null,
+    },
+  ]);
+});
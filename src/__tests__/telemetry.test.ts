@@ -0,0 +1,115 @@
+import type { AuthEvent } from '../telemetry';
+
+jest.mock('../NativeGoogleAuth', () => ({
+  __esModule: true,
+  default: {
+    configure: jest.fn(),
+    signIn: jest.fn(),
+    signOut: jest.fn(),
+    refreshTokens: jest.fn(),
+  },
+}));
+
+let GoogleAuth: typeof import('../index').GoogleAuth;
+let native: Record<string, jest.Mock>;
+let events: AuthEvent[];
+
+beforeEach(() => {
+  jest.resetModules();
+  GoogleAuth = require('../index').GoogleAuth;
+  native = require('../NativeGoogleAuth').default;
+  Object.values(native).forEach((fn) => fn.mockReset());
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  events = [];
+  GoogleAuth.use({ onEvent: (event) => events.push(event) });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('reports start and success with the sign-in response type', async () => {
+  native.signIn!.mockResolvedValue({ type: 'cancelled' });
+
+  await GoogleAuth.signIn();
+
+  expect(events).toEqual([
+    expect.objectContaining({ operation: 'signIn', phase: 'start' }),
+    expect.objectContaining({
+      operation: 'signIn',
+      phase: 'success',
+      responseType: 'cancelled',
+      platform: 'ios',
+      durationMs: expect.any(Number),
+    }),
+  ]);
+});
+
+it('reports failures with the normalized error code', async () => {
+  native.signOut!.mockRejectedValue(
+    Object.assign(new Error('Offline'), { code: 'NETWORK_ERROR' })
+  );
+
+  await expect(GoogleAuth.signOut()).rejects.toThrow('Offline');
+
+  expect(events[1]).toEqual(
+    expect.objectContaining({
+      operation: 'signOut',
+      phase: 'failure',
+      errorCode: 'NETWORK_ERROR',
+      isRetryable: true,
+    })
+  );
+});
+
+it('reports one refresh for concurrent refreshTokens calls', async () => {
+  native.refreshTokens!.mockResolvedValue({ idToken: 'id', accessToken: null });
+
+  await Promise.all([GoogleAuth.refreshTokens(), GoogleAuth.refreshTokens()]);
+
+  expect(events.map((event) => event.phase)).toEqual(['start', 'success']);
+});
+
+it('never includes personal data', async () => {
+  native.signIn!.mockResolvedValue({
+    type: 'success',
+    data: {
+      idToken: 'id-token',
+      accessToken: 'access-token',
+      serverAuthCode: null,
+      scopes: [],
+      user: {
+        id: '1',
+        userId: '1',
+        name: 'Jane',
+        email: 'jane@example.com',
+        photo: null,
+        familyName: null,
+        givenName: null,
+      },
+    },
+  });
+
+  await GoogleAuth.signIn();
+
+  const serialized = JSON.stringify(events);
+  expect(serialized).not.toContain('jane@example.com');
+  expect(serialized).not.toContain('id-token');
+});
+
+it('isolates failing plugins and supports removal', async () => {
+  const remove = GoogleAuth.use({
+    name: 'broken',
+    onEvent: () => {
+      throw new Error('plugin failure');
+    },
+  });
+  native.configure!.mockResolvedValue(undefined);
+
+  await expect(GoogleAuth.configure({})).resolves.toBeUndefined();
+  remove();
+  await GoogleAuth.configure({});
+
+  expect(events.filter((event) => event.phase === 'success')).toHaveLength(2);
+});
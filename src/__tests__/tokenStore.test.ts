@@ -0,0 +1,105 @@
+import type { User } from '../NativeGoogleAuth';
+import type { StoredSession, TokenStore } from '../tokenStore';
+
+const user: User = {
+  id: '1234',
+  userId: '1234',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  photo: null,
+  familyName: 'Doe',
+  givenName: 'Jane',
+  emailVerified: true,
+  hostedDomain: null,
+  locale: null,
+};
+
+const tokens = { idToken: 'id-token', accessToken: null, expiresAt: 2000 };
+
+let authState: typeof import('../authState');
+let tokenStore: typeof import('../tokenStore');
+
+// Lets queued store writes finish
+const flushWrites = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createStore = (saved: StoredSession | null = null) => {
+  let session = saved;
+  return {
+    get: jest.fn(async () => session),
+    set: jest.fn(async (next: StoredSession) => {
+      session = next;
+    }),
+    clear: jest.fn(async () => {
+      session = null;
+    }),
+  } satisfies TokenStore;
+};
+
+beforeEach(() => {
+  jest.resetModules();
+  authState = require('../authState');
+  tokenStore = require('../tokenStore');
+});
+
+it('restores the saved session for synchronous reads', async () => {
+  const listener = jest.fn();
+  authState.onTokensChanged(listener);
+
+  expect(tokenStore.getCachedSession()).toBeNull();
+  await tokenStore.setTokenStore(createStore({ user, tokens }));
+
+  expect(tokenStore.getCachedSession()).toEqual({ user, tokens });
+  expect(authState.getAuthAccounts()).toEqual([user]);
+  expect(listener).toHaveBeenCalledWith(tokens);
+});
+
+it('does not overwrite a session that is already known', async () => {
+  const current = { ...tokens, idToken: 'newer' };
+  authState.setAuthUser(user);
+  authState.setAuthTokens(current);
+
+  await tokenStore.setTokenStore(createStore({ user, tokens }));
+
+  expect(tokenStore.getCachedSession()?.tokens).toEqual(current);
+});
+
+it('saves token changes and clears the store on sign-out', async () => {
+  const store = createStore();
+  await tokenStore.setTokenStore(store);
+
+  authState.setAuthUser(user);
+  authState.setAuthTokens(tokens);
+  await flushWrites();
+  expect(store.set).toHaveBeenLastCalledWith({ user, tokens });
+
+  authState.clearAuthState();
+  await flushWrites();
+  expect(store.clear).toHaveBeenCalled();
+  await expect(store.get()).resolves.toBeNull();
+});
+
+it('keeps the saved session while only the user is known', async () => {
+  const store = createStore({ user, tokens });
+  await tokenStore.setTokenStore(store);
+  authState.setAuthTokens(null);
+
+  authState.setAuthUser({ ...user, name: 'Jane' });
+  await flushWrites();
+
+  expect(store.clear).not.toHaveBeenCalled();
+  await expect(store.get()).resolves.toEqual({ user, tokens });
+});
+
+it('keeps working when the store fails', async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const store = createStore();
+  store.get.mockRejectedValue(new Error('locked'));
+  store.set.mockRejectedValue(new Error('locked'));
+
+  await expect(tokenStore.setTokenStore(store)).resolves.toBeUndefined();
+  authState.setAuthUser(user);
+  authState.setAuthTokens(tokens);
+  await flushWrites();
+
+  expect(tokenStore.getCachedSession()).toEqual({ user, tokens });
+});
@@ -0,0 +1,155 @@
+import type { ConfigureParams, SignInOptions } from '../NativeGoogleAuth';
+import {
+  ConfigErrorCode,
+  validateConfiguration,
+  validateScopeFormat,
+  validateSignInOptions,
+} from '../validation';
+
+const CLIENT_ID = '1234-abc.apps.googleusercontent.com';
+
+it('accepts a valid configuration', () => {
+  expect(
+    validateConfiguration({
+      webClientId: CLIENT_ID,
+      iosClientId: CLIENT_ID,
+      hostedDomain: 'example.com',
+      scopes: ['email', 'https://www.googleapis.com/auth/drive.readonly'],
+      offlineAccess: true,
+      profileImageSize: 240,
+      credentialManagerMode: 'interactive',
+    })
+  ).toEqual([]);
+});
+
+it('accepts an empty configuration', () => {
+  expect(validateConfiguration({})).toEqual([]);
+});
+
+it('collects every issue with its field path', () => {
+  const issues = validateConfiguration({
+    webClientId: 'not-a-client-id',
+    hostedDomain: 'nodot',
+    scopes: ['email', 'drive', ''],
+    profileImageSize: 0,
+    credentialManagerMode: 'always',
+  } as unknown as ConfigureParams);
+
+  expect(issues.map(({ field, code }) => ({ field, code }))).toEqual([
+    { field: 'webClientId', code: ConfigErrorCode.INVALID_CLIENT_ID_FORMAT },
+    { field: 'hostedDomain', code: ConfigErrorCode.INVALID_DOMAIN_FORMAT },
+    { field: 'scopes[1]', code: ConfigErrorCode.INVALID_SCOPE_FORMAT },
+    { field: 'scopes[2]', code: ConfigErrorCode.EMPTY_SCOPE },
+    {
+      field: 'profileImageSize',
+      code: ConfigErrorCode.INVALID_PROFILE_IMAGE_SIZE,
+    },
+    {
+      field: 'credentialManagerMode',
+      code: ConfigErrorCode.INVALID_CREDENTIAL_MANAGER_MODE,
+    },
+  ]);
+});
+
+it('accepts Google scopes hosted outside googleapis.com', () => {
+  expect(
+    validateConfiguration({ scopes: ['https://mail.google.com/'] })
+  ).toEqual([]);
+});
+
+it('describes the accepted scope formats when rejecting a scope', () => {
+  expect(validateScopeFormat('https://example.com/auth/drive')).toEqual({
+    isValid: false,
+    errorMessage:
+      'Invalid OAuth scope format: https://example.com/auth/drive. Must be an https scope URL on googleapis.com or google.com, or one of: openid, email, profile',
+    errorCode: 'INVALID_SCOPE_FORMAT',
+  });
+});
+
+it('accepts deprecated scopes and suggests scope URLs for bare names', () => {
+  const issues = validateConfiguration({
+    scopes: ['https://www.googleapis.com/auth/plus.me', 'drive.readonly'],
+  });
+
+  expect(issues).toEqual([
+    expect.objectContaining({
+      field: 'scopes[1]',
+      code: ConfigErrorCode.INVALID_SCOPE_FORMAT,
+      message: expect.stringContaining(
+        'Did you mean https://www.googleapis.com/auth/drive.readonly?'
+      ),
+    }),
+  ]);
+});
+
+it('validates allowed domains and email patterns', () => {
+  const issues = validateConfiguration({
+    allowedDomains: ['partner.com', 'nodot'],
+    allowedEmails: ['*@partner.com', 'partner.com'],
+  });
+
+  expect(issues.map(({ field, code }) => ({ field, code }))).toEqual([
+    { field: 'allowedDomains[1]', code: ConfigErrorCode.INVALID_DOMAIN_FORMAT },
+    { field: 'allowedEmails[1]', code: ConfigErrorCode.INVALID_EMAIL_PATTERN },
+  ]);
+});
+
+it('rejects fractional and oversized profile image sizes', () => {
+  expect(validateConfiguration({ profileImageSize: 12.5 })).toHaveLength(1);
+  expect(validateConfiguration({ profileImageSize: 4096 })).toHaveLength(1);
+});
+
+it('reports fields with the wrong type', () => {
+  const issues = validateConfiguration({
+    iosClientId: 42,
+    scopes: 'email',
+    offlineAccess: 'yes',
+    accountName: false,
+  } as unknown as ConfigureParams);
+
+  expect(issues.map(({ field, code }) => ({ field, code }))).toEqual([
+    { field: 'iosClientId', code: ConfigErrorCode.INVALID_OPTION_TYPE },
+    { field: 'scopes', code: ConfigErrorCode.INVALID_SCOPES_TYPE },
+    { field: 'offlineAccess', code: ConfigErrorCode.INVALID_OPTION_TYPE },
+    { field: 'accountName', code: ConfigErrorCode.INVALID_OPTION_TYPE },
+  ]);
+});
+
+it('requires webClientId for offline access', () => {
+  expect(validateConfiguration({ offlineAccess: true })).toEqual([
+    expect.objectContaining({
+      field: 'webClientId',
+      code: ConfigErrorCode.MISSING_REQUIRED_CONFIG,
+    }),
+  ]);
+});
+
+it('accepts valid sign-in options', () => {
+  expect(
+    validateSignInOptions({
+      mode: 'silent',
+      loginHint: 'jane@example.com',
+      forceAccountPicker: false,
+      hostedDomain: 'example.com',
+      scopes: ['https://www.googleapis.com/auth/drive.file'],
+    })
+  ).toEqual([]);
+});
+
+it('reports every invalid sign-in option', () => {
+  const issues = validateSignInOptions({
+    mode: 'popup',
+    loginHint: 42,
+    forceAccountPicker: 'yes',
+    hostedDomain: 'not a domain',
+    scopes: ['drive'],
+  } as unknown as SignInOptions);
+
+  expect(issues.map(({ field, code }) => ({ field, code }))).toEqual([
+    { field: 'loginHint', code: ConfigErrorCode.INVALID_OPTION_TYPE },
+    { field: 'forceAccountPicker', code: ConfigErrorCode.INVALID_OPTION_TYPE },
+    { field: 'mode', code: ConfigErrorCode.INVALID_CREDENTIAL_MANAGER_MODE },
+    { field: 'hostedDomain', code: ConfigErrorCode.INVALID_DOMAIN_FORMAT },
+    { field: 'scopes', code: ConfigErrorCode.INVALID_SCOPE_FORMAT },
+  ]);
+});
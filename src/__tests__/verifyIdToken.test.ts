@@ -0,0 +1,130 @@
+import { createSign, createHash, generateKeyPairSync } from 'crypto';
+import { sha256 } from '../sha256';
+import { utf8Encode } from '../base64';
+import { createJwksProvider, verifyIdToken } from '../verifyIdToken';
+import type { JsonWebKeySet } from '../verifyIdToken';
+
+const AUDIENCE = '1234-abc.apps.googleusercontent.com';
+const NOW_SECONDS = Math.floor(Date.now() / 1000);
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+const jwks = {
+  keys: [
+    { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256' },
+  ],
+} as JsonWebKeySet;
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (
+  claims: object,
+  header: object = { alg: 'RS256', kid: 'key-1' }
+) => {
+  const input = `${encode(header)}.${encode(claims)}`;
+  const signature = createSign('RSA-SHA256').update(input).sign(privateKey);
+  return `${input}.${signature.toString('base64url')}`;
+};
+
+const validClaims = {
+  iss: 'https://accounts.google.com',
+  aud: AUDIENCE,
+  sub: '1001',
+  hd: 'example.com',
+  iat: NOW_SECONDS,
+  exp: NOW_SECONDS + 3600,
+};
+
+const expectReason = (promise: Promise<unknown>, reason: string) =>
+  expect(promise).rejects.toMatchObject({
+    code: 'INVALID_TOKEN',
+    userInfo: expect.objectContaining({ reason }),
+  });
+
+it('computes SHA-256 digests', () => {
+  for (const input of ['', 'abc', 'a'.repeat(200)]) {
+    expect(Buffer.from(sha256(utf8Encode(input))).toString('hex')).toBe(
+      createHash('sha256').update(input).digest('hex')
+    );
+  }
+});
+
+it('accepts a valid token', async () => {
+  await expect(
+    verifyIdToken(sign(validClaims), {
+      audience: AUDIENCE,
+      hostedDomain: 'example.com',
+      jwks,
+    })
+  ).resolves.toEqual(validClaims);
+});
+
+it('rejects a tampered payload', async () => {
+  const [header, , signature] = sign(validClaims).split('.');
+  const tampered = `${header}.${encode({ ...validClaims, sub: '2002' })}.${signature}`;
+
+  await expectReason(
+    verifyIdToken(tampered, { audience: AUDIENCE, jwks }),
+    'INVALID_SIGNATURE'
+  );
+});
+
+it('rejects unknown keys after refreshing the key set', async () => {
+  const provider = jest.fn().mockResolvedValue(jwks);
+
+  await expectReason(
+    verifyIdToken(sign(validClaims, { alg: 'RS256', kid: 'other' }), {
+      audience: AUDIENCE,
+      jwks: provider,
+    }),
+    'KEY_NOT_FOUND'
+  );
+  expect(provider).toHaveBeenLastCalledWith({ forceRefresh: true });
+});
+
+it.each([
+  [{ iss: 'https://evil.example.com' }, 'INVALID_ISSUER'],
+  [{ aud: 'other.apps.googleusercontent.com' }, 'INVALID_AUDIENCE'],
+  [{ exp: NOW_SECONDS - 10 }, 'EXPIRED'],
+  [{ iat: NOW_SECONDS + 600 }, 'ISSUED_IN_FUTURE'],
+  [{ hd: 'other.com' }, 'INVALID_HOSTED_DOMAIN'],
+])('rejects invalid claims %j', async (override, reason) => {
+  await expectReason(
+    verifyIdToken(sign({ ...validClaims, ...override }), {
+      audience: AUDIENCE,
+      hostedDomain: 'example.com',
+      jwks,
+    }),
+    reason
+  );
+});
+
+it('rejects algorithms other than RS256', async () => {
+  await expectReason(
+    verifyIdToken(sign(validClaims, { alg: 'none' }), {
+      audience: AUDIENCE,
+      jwks,
+    }),
+    'UNSUPPORTED_ALGORITHM'
+  );
+});
+
+it('reports an unparseable key set as NETWORK_ERROR', async () => {
+  const provider = createJwksProvider({
+    fetch: async () =>
+      ({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError('Unexpected token <');
+        },
+      }) as unknown as Response,
+  });
+
+  await expect(provider({ forceRefresh: false })).rejects.toMatchObject({
+    code: 'NETWORK_ERROR',
+    message: 'Failed to parse JWKS: Unexpected token <',
+  });
+});
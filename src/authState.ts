@@ -0,0 +1,217 @@
+import type { User, GetTokensResponse } from './NativeGoogleAuth';
+import { log } from './logger';
+
+/**
+ * Tokens tracked by the auth state store
+ */
+export type AuthTokens = GetTokensResponse;
+
+/**
+ * Listener invoked with the current user, or null when signed out
+ */
+export type AuthStateListener = (user: User | null) => void;
+
+/**
+ * Listener invoked with the current tokens, or null when signed out
+ */
+export type TokensListener = (tokens: AuthTokens | null) => void;
+
+/**
+ * Listener invoked with every signed-in account
+ */
+export type AccountsListener = (accounts: User[]) => void;
+
+/**
+ * Removes a previously registered listener
+ */
+export type Unsubscribe = () => void;
+
+type Listener<T> = (value: T | null) => void;
+
+interface Channel<T> {
+  value: T | null;
+  // False until the first value is known, so late subscribers are not told
+  // "signed out" before the session has been checked
+  hasValue: boolean;
+  listeners: Set<Listener<T>>;
+  isEqual: (a: T, b: T) => boolean;
+}
+
+const isSameUser = (a: User, b: User): boolean =>
+  a.id === b.id &&
+  a.userId === b.userId &&
+  a.email === b.email &&
+  a.name === b.name &&
+  a.photo === b.photo &&
+  a.familyName === b.familyName &&
+  a.givenName === b.givenName &&
+  a.emailVerified === b.emailVerified &&
+  a.hostedDomain === b.hostedDomain &&
+  a.locale === b.locale;
+
+const isSameTokens = (a: AuthTokens, b: AuthTokens): boolean =>
+  a.idToken === b.idToken &&
+  a.accessToken === b.accessToken &&
+  a.expiresAt === b.expiresAt;
+
+const isSameAccounts = (a: User[], b: User[]): boolean =>
+  a.length === b.length &&
+  a.every((user, index) => isSameUser(user, b[index]!));
+
+const userChannel: Channel<User> = {
+  value: null,
+  hasValue: false,
+  listeners: new Set(),
+  isEqual: isSameUser,
+};
+
+const tokensChannel: Channel<AuthTokens> = {
+  value: null,
+  hasValue: false,
+  listeners: new Set(),
+  isEqual: isSameTokens,
+};
+
+const accountsChannel: Channel<User[]> = {
+  value: null,
+  hasValue: false,
+  listeners: new Set(),
+  isEqual: isSameAccounts,
+};
+
+const notify = <T>(listener: Listener<T>, value: T | null) => {
+  try {
+    listener(value);
+  } catch (error) {
+    log.error('listener error', error);
+  }
+};
+
+const publish = <T>(channel: Channel<T>, next: T | null) => {
+  const prev = channel.value;
+  const unchanged =
+    channel.hasValue &&
+    (prev === next ||
+      (prev !== null && next !== null && channel.isEqual(prev, next)));
+
+  channel.value = next;
+  channel.hasValue = true;
+
+  if (unchanged) {
+    return;
+  }
+
+  // Copy so listeners that unsubscribe during emit don't skip their neighbours
+  Array.from(channel.listeners).forEach((listener) => notify(listener, next));
+};
+
+const subscribe = <T>(
+  channel: Channel<T>,
+  listener: Listener<T>
+): Unsubscribe => {
+  channel.listeners.add(listener);
+
+  if (channel.hasValue) {
+    notify(listener, channel.value);
+  }
+
+  return () => {
+    channel.listeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to user changes. The listener is called immediately with the
+ * current user if it is already known.
+ */
+export function onAuthStateChanged(listener: AuthStateListener): Unsubscribe {
+  return subscribe(userChannel, listener);
+}
+
+/**
+ * Subscribe to token changes. The listener is called immediately with the
+ * current tokens if they are already known.
+ */
+export function onTokensChanged(listener: TokensListener): Unsubscribe {
+  return subscribe(tokensChannel, listener);
+}
+
+/**
+ * Subscribe to changes of the signed-in accounts. The listener is called
+ * immediately with the current accounts if they are already known.
+ */
+export function onAccountsChanged(listener: AccountsListener): Unsubscribe {
+  return subscribe(accountsChannel, (accounts) => listener(accounts ?? []));
+}
+
+/**
+ * Records the current user and notifies listeners if it changed
+ */
+export function setAuthUser(user: User | null): void {
+  publish(userChannel, user);
+}
+
+/**
+ * Records the current tokens and notifies listeners if they changed
+ */
+export function setAuthTokens(tokens: AuthTokens | null): void {
+  publish(tokensChannel, tokens);
+}
+
+/**
+ * Records every signed-in account and notifies listeners if they changed
+ */
+export function setAuthAccounts(accounts: User[]): void {
+  publish(accountsChannel, accounts);
+}
+
+/**
+ * Adds an account, or updates it if already known, keeping the list order
+ */
+export function upsertAuthAccount(user: User): void {
+  const accounts = accountsChannel.value ?? [];
+  const index = accounts.findIndex((account) => account.userId === user.userId);
+  setAuthAccounts(
+    index === -1
+      ? [...accounts, user]
+      : accounts.map((account, i) => (i === index ? user : account))
+  );
+}
+
+/**
+ * Removes an account from the signed-in accounts
+ */
+export function removeAuthAccount(userId: string): void {
+  setAuthAccounts(
+    (accountsChannel.value ?? []).filter((account) => account.userId !== userId)
+  );
+}
+
+/**
+ * Marks the session as signed out
+ */
+export function clearAuthState(): void {
+  publish(userChannel, null);
+  publish(tokensChannel, null);
+}
+
+/**
+ * Returns the last known user, or null if signed out or not yet known
+ */
+export function getAuthUser(): User | null {
+  return userChannel.value;
+}
+
+/**
+ * Returns the last known tokens, or null if signed out or not yet known
+ */
+export function getAuthTokens(): AuthTokens | null {
+  return tokensChannel.value;
+}
+
+/**
+ * Returns the last known accounts, or an empty list if not yet known
+ */
+export function getAuthAccounts(): User[] {
+  return accountsChannel.value ?? [];
+}
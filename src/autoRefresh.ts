@@ -0,0 +1,179 @@
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import { onTokensChanged } from './authState';
+import type { AuthTokens } from './authState';
+import { isErrorWithCode, isGoogleAuthError } from './errors';
+import type { GoogleAuthErrorCode } from './errors';
+
+export interface AutoRefreshOptions {
+  /**
+   * Seconds before expiresAt at which tokens are refreshed
+   * Default: 300
+   */
+  leadTimeSeconds?: number;
+
+  /**
+   * Delay before the first retry after a retryable failure
+   * Doubled on every attempt, with jitter
+   * Default: 1000
+   */
+  initialRetryDelayMs?: number;
+
+  /**
+   * Upper bound for the retry delay
+   * Default: 60000
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Number of retries before giving up until tokens change or the app returns to the foreground
+   * Default: 5
+   */
+  maxRetries?: number;
+
+  /**
+   * Error codes that trigger a retry with backoff
+   * Default: the codes GoogleAuthError marks as isRetryable
+   */
+  retryableCodes?: GoogleAuthErrorCode[];
+
+  /**
+   * Called when a refresh fails and will not be retried
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface AutoRefreshHandle {
+  /**
+   * Stop scheduling refreshes and release all listeners
+   */
+  stop: () => void;
+}
+
+// setTimeout overflows above this value and fires immediately
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * Schedules refreshTokens ahead of token expiry.
+ * Pauses while the app is in the background and catches up on foreground.
+ */
+export function createAutoRefresh(
+  refreshTokens: () => Promise<Pick<AuthTokens, 'expiresAt'>>,
+  options: AutoRefreshOptions = {}
+): AutoRefreshHandle {
+  const {
+    leadTimeSeconds = 300,
+    initialRetryDelayMs = 1000,
+    maxRetryDelayMs = 60000,
+    maxRetries = 5,
+    retryableCodes,
+    onError,
+  } = options;
+
+  let expiresAt: number | undefined;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let isActive = AppState.currentState !== 'background';
+  let isStopped = false;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const setTimer = (delayMs: number) => {
+    clearTimer();
+    timer = setTimeout(run, Math.min(Math.max(delayMs, 0), MAX_TIMEOUT_MS));
+  };
+
+  const isRetryable = (error: unknown): boolean =>
+    retryableCodes
+      ? isErrorWithCode(error) &&
+        (retryableCodes as string[]).includes(error.code)
+      : isGoogleAuthError(error) && error.isRetryable;
+
+  const retryDelay = (): number => {
+    const base = Math.min(
+      maxRetryDelayMs,
+      initialRetryDelayMs * Math.pow(2, attempt - 1)
+    );
+    // Jitter between 50% and 100% of the base delay so clients don't sync up
+    return base / 2 + Math.random() * (base / 2);
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (isStopped || !isActive || expiresAt === undefined) {
+      return;
+    }
+    setTimer(expiresAt - leadTimeSeconds * 1000 - Date.now());
+  };
+
+  function run() {
+    timer = null;
+    if (isStopped || !isActive) {
+      return;
+    }
+
+    // Reschedule from the result: identical refreshed tokens are not
+    // republished, so the listener alone would never fire again
+    refreshTokens().then(
+      (result) => {
+        attempt = 0;
+        if (isStopped || result.expiresAt === undefined) {
+          return;
+        }
+        expiresAt = result.expiresAt;
+        schedule();
+      },
+      (error) => {
+        if (isStopped) {
+          return;
+        }
+        if (isRetryable(error) && attempt < maxRetries) {
+          attempt += 1;
+          if (isActive) {
+            setTimer(retryDelay());
+          }
+          return;
+        }
+        attempt = 0;
+        onError?.(error);
+      }
+    );
+  }
+
+  const unsubscribeTokens = onTokensChanged((nextTokens) => {
+    expiresAt = nextTokens?.expiresAt;
+    attempt = 0;
+    schedule();
+  });
+
+  const appStateSubscription = AppState.addEventListener(
+    'change',
+    (state: AppStateStatus) => {
+      const wasActive = isActive;
+      isActive = state !== 'background';
+
+      if (!isActive) {
+        clearTimer();
+      } else if (!wasActive) {
+        // Timers don't run in the background, so re-evaluate on return;
+        // schedule() fires immediately when the refresh point has passed
+        attempt = 0;
+        schedule();
+      }
+    }
+  );
+
+  return {
+    stop: () => {
+      isStopped = true;
+      clearTimer();
+      unsubscribeTokens();
+      appStateSubscription.remove();
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/* eslint-disable no-bitwise */
+/**
+ * Dependency-free base64url and UTF-8 helpers
+ * Hermes does not guarantee atob or TextDecoder, so these are implemented in JS
+ */
+
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const LOOKUP: Record<string, number> = {};
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charAt(i)] = i;
+}
+
+/**
+ * Decodes a base64url (or standard base64) string into bytes
+ * @param input The encoded string, with or without padding
+ * @returns Decoded bytes
+ * @throws Error if the input contains invalid characters
+ */
+export function base64UrlToBytes(input: string): Uint8Array {
+  const normalized = input
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '');
+
+  if (normalized.length % 4 === 1) {
+    throw new Error('Invalid base64 length');
+  }
+
+  const bytes = new Uint8Array(Math.floor((normalized.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (let i = 0; i < normalized.length; i++) {
+    const value = LOOKUP[normalized.charAt(i)];
+    if (value === undefined) {
+      throw new Error(`Invalid base64 character at index ${i}`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decodes UTF-8 bytes into a string
+ * @param bytes UTF-8 encoded bytes
+ * @returns Decoded string
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let output = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++]!;
+    let codePoint: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++]! & 0x3f);
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i++]! & 0x3f) << 6) |
+        (bytes[i++]! & 0x3f);
+    } else {
+      codePoint =
+        ((byte & 0x07) << 18) |
+        ((bytes[i++]! & 0x3f) << 12) |
+        ((bytes[i++]! & 0x3f) << 6) |
+        (bytes[i++]! & 0x3f);
+    }
+
+    output += String.fromCodePoint(codePoint);
+  }
+
+  return output;
+}
+
+/**
+ * Encodes a string as UTF-8 bytes
+ * @param input The string to encode
+ * @returns UTF-8 encoded bytes
+ */
+export function utf8Encode(input: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of input) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes bytes as an unpadded base64url string
+ * @param bytes The bytes to encode
+ * @returns base64url string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = (buffer << 8) | bytes[i]!;
+    bits += 8;
+    while (bits >= 6) {
+      bits -= 6;
+      output += ALPHABET.charAt((buffer >> bits) & 0x3f);
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    output += ALPHABET.charAt((buffer << (6 - bits)) & 0x3f);
+  }
+
+  return output;
+}
@@ -0,0 +1,55 @@
+import type { ConfigureParams, SignInOptions } from './NativeGoogleAuth';
+
+let currentConfiguration: ConfigureParams | null = null;
+
+/**
+ * Records the parameters of the last successful configure call
+ */
+export function setConfiguration(params: ConfigureParams): void {
+  currentConfiguration = { ...params };
+}
+
+/**
+ * Returns the parameters of the last successful configure call, or null
+ */
+export function getConfiguration(): ConfigureParams | null {
+  return currentConfiguration;
+}
+
+/**
+ * Returns every client ID known from the current configuration
+ */
+export function getConfiguredClientIds(): string[] {
+  if (!currentConfiguration) {
+    return [];
+  }
+  const { webClientId, iosClientId, androidClientId } = currentConfiguration;
+  return [webClientId, iosClientId, androidClientId].filter(
+    (clientId): clientId is string => !!clientId
+  );
+}
+
+/**
+ * Merges per-call sign-in options over the current configuration
+ * Scopes are the per-call extras not already configured; keys that end up
+ * undefined are dropped so native modules only see what is set.
+ */
+export function resolveSignInOptions(
+  options: SignInOptions = {}
+): SignInOptions {
+  const config = currentConfiguration ?? {};
+  const scopes = options.scopes?.filter(
+    (scope) => !config.scopes?.includes(scope)
+  );
+  const resolved: SignInOptions = {
+    nonce: options.nonce,
+    mode: options.mode ?? config.credentialManagerMode,
+    loginHint: options.loginHint ?? config.accountName,
+    forceAccountPicker: options.forceAccountPicker ?? config.forceAccountPicker,
+    hostedDomain: options.hostedDomain ?? config.hostedDomain,
+    scopes: scopes?.length ? scopes : undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(resolved).filter(([, value]) => value !== undefined)
+  ) as SignInOptions;
+}
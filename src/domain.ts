@@ -0,0 +1,70 @@
+import type { ConfigureParams } from './NativeGoogleAuth';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import { decodeIdToken } from './idToken';
+import { toEmailVerified } from './profile';
+
+type DomainRestrictions = Pick<
+  ConfigureParams,
+  'hostedDomain' | 'allowedDomains' | 'allowedEmails'
+>;
+
+// '*' matches any run of characters; everything else is literal
+const toEmailPattern = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+    'i'
+  );
+
+const hasRestrictions = (config: DomainRestrictions) =>
+  !!config.hostedDomain ||
+  !!config.allowedDomains?.length ||
+  !!config.allowedEmails?.length;
+
+/**
+ * Checks an ID token against hostedDomain, allowedDomains and allowedEmails
+ * The account is allowed when its hd claim is one of the domains, or when its
+ * verified email matches one of the patterns. Without restrictions every
+ * account is allowed.
+ * @param idToken ID token returned by sign-in
+ * @param config The current configuration
+ * @throws GoogleAuthError with DOMAIN_NOT_ALLOWED if the account is not allowed
+ */
+export function assertDomainAllowed(
+  idToken: string,
+  config: DomainRestrictions | null
+): void {
+  if (!config || !hasRestrictions(config)) {
+    return;
+  }
+
+  const claims = decodeIdToken(idToken);
+  const hostedDomain = claims.hd?.toLowerCase() ?? null;
+  const domains = [config.hostedDomain, ...(config.allowedDomains ?? [])]
+    .filter((domain): domain is string => !!domain)
+    .map((domain) => domain.toLowerCase());
+
+  if (hostedDomain !== null && domains.includes(hostedDomain)) {
+    return;
+  }
+
+  if (
+    toEmailVerified(claims) === true &&
+    claims.email &&
+    (config.allowedEmails ?? []).some((pattern) =>
+      toEmailPattern(pattern).test(claims.email!)
+    )
+  ) {
+    return;
+  }
+
+  throw createErrorResponse(
+    GoogleAuthErrorCodes.DOMAIN_NOT_ALLOWED,
+    hostedDomain === null
+      ? 'Accounts outside a Google Workspace domain are not allowed to sign in'
+      : `Accounts from ${hostedDomain} are not allowed to sign in`,
+    { hostedDomain }
+  );
+}
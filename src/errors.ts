@@ -17,12 +17,21 @@ export const GoogleAuthErrorCodes = {
   INVALID_SCOPES_TYPE: 'INVALID_SCOPES_TYPE',
   INVALID_SCOPE_TYPE: 'INVALID_SCOPE_TYPE',
   MISSING_REQUIRED_CONFIG: 'MISSING_REQUIRED_CONFIG',
+  INVALID_OPTION_TYPE: 'INVALID_OPTION_TYPE',
+  INVALID_PROFILE_IMAGE_SIZE: 'INVALID_PROFILE_IMAGE_SIZE',
+  INVALID_CREDENTIAL_MANAGER_MODE: 'INVALID_CREDENTIAL_MANAGER_MODE',
+  INVALID_EMAIL_PATTERN: 'INVALID_EMAIL_PATTERN',
 
   // Sign-in errors
   SIGN_IN_ERROR: 'SIGN_IN_ERROR',
   SIGN_IN_CANCELLED: 'SIGN_IN_CANCELLED',
   IN_PROGRESS: 'IN_PROGRESS',
   NOT_SIGNED_IN: 'NOT_SIGNED_IN',
+  NONCE_MISMATCH: 'NONCE_MISMATCH',
+  DOMAIN_NOT_ALLOWED: 'DOMAIN_NOT_ALLOWED',
+
+  // Account errors
+  ACCOUNT_NOT_FOUND: 'ACCOUNT_NOT_FOUND',
 
   // Platform-specific errors
   NO_ACTIVITY: 'NO_ACTIVITY', // Android
@@ -35,6 +44,10 @@ export const GoogleAuthErrorCodes = {
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
   INVALID_TOKEN: 'INVALID_TOKEN',
 
+  // Authorization errors
+  ADD_SCOPES_ERROR: 'ADD_SCOPES_ERROR',
+  REVOKE_ERROR: 'REVOKE_ERROR',
+
   // Play Services errors (Android)
   PLAY_SERVICES_NOT_AVAILABLE: 'PLAY_SERVICES_NOT_AVAILABLE',
   PLAY_SERVICES_ERROR: 'PLAY_SERVICES_ERROR',
@@ -47,6 +60,10 @@ export const GoogleAuthErrorCodes = {
 
   // Implementation errors
   NOT_IMPLEMENTED: 'NOT_IMPLEMENTED',
+  NATIVE_MODULE_NOT_FOUND: 'NATIVE_MODULE_NOT_FOUND',
+
+  // Errors that could not be classified
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 
   // Additional platform-specific error codes
   SIGN_OUT_ERROR: 'SIGN_OUT_ERROR',
@@ -59,6 +76,36 @@ export const GoogleAuthErrorCodes = {
 export type GoogleAuthErrorCode =
   (typeof GoogleAuthErrorCodes)[keyof typeof GoogleAuthErrorCodes];
 
+const KNOWN_ERROR_CODES = new Set<string>(Object.values(GoogleAuthErrorCodes));
+
+/**
+ * Codes for transient failures where repeating the same call may succeed
+ */
+const RETRYABLE_ERROR_CODES = new Set<GoogleAuthErrorCode>([
+  GoogleAuthErrorCodes.IN_PROGRESS,
+  GoogleAuthErrorCodes.NO_ACTIVITY,
+  GoogleAuthErrorCodes.NO_VIEW_CONTROLLER,
+  GoogleAuthErrorCodes.TOKEN_REFRESH_ERROR,
+  GoogleAuthErrorCodes.TOKEN_REFRESH_FAILED,
+  GoogleAuthErrorCodes.GET_TOKENS_ERROR,
+  GoogleAuthErrorCodes.REFRESH_ERROR,
+  GoogleAuthErrorCodes.REFRESH_FAILED,
+  GoogleAuthErrorCodes.NETWORK_ERROR,
+]);
+
+/**
+ * Codes the end user can resolve, e.g. by signing in again,
+ * updating Play Services or restoring connectivity
+ */
+const USER_ACTIONABLE_ERROR_CODES = new Set<GoogleAuthErrorCode>([
+  GoogleAuthErrorCodes.SIGN_IN_CANCELLED,
+  GoogleAuthErrorCodes.NOT_SIGNED_IN,
+  GoogleAuthErrorCodes.SIGN_IN_REQUIRED,
+  GoogleAuthErrorCodes.TOKEN_EXPIRED,
+  GoogleAuthErrorCodes.PLAY_SERVICES_NOT_AVAILABLE,
+  GoogleAuthErrorCodes.NETWORK_ERROR,
+]);
+
 /**
  * Status codes for various Google Auth operations
  */
@@ -84,6 +131,10 @@ export type GoogleAuthStatusCode =
 export class GoogleAuthError extends Error {
   public readonly code: GoogleAuthErrorCode;
   public readonly userInfo?: Record<string, any>;
+  /** True for transient failures where retrying the call may succeed */
+  public readonly isRetryable: boolean;
+  /** True when the end user can resolve the failure, e.g. by signing in */
+  public readonly isUserActionable: boolean;
 
   constructor(
     code: GoogleAuthErrorCode,
@@ -94,6 +145,8 @@ export class GoogleAuthError extends Error {
     this.name = 'GoogleAuthError';
     this.code = code;
     this.userInfo = userInfo;
+    this.isRetryable = RETRYABLE_ERROR_CODES.has(code);
+    this.isUserActionable = USER_ACTIONABLE_ERROR_CODES.has(code);
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
@@ -134,10 +187,26 @@ export function createErrorResponse(
   return new GoogleAuthError(code, message, userInfo);
 }
 
+/**
+ * Creates an error shaped like those rejected by React Native native modules
+ * Used by the JS implementations of the native module (web and mock)
+ */
+export function createNativeError(
+  code: string,
+  message: string
+): Error & { code: string; userInfo: null } {
+  return Object.assign(new Error(message), { code, userInfo: null });
+}
+
 /**
  * Maps native error codes to our standardized error codes
+ * Codes that already match a GoogleAuthErrorCode are kept as-is;
+ * anything else maps to fallbackCode
  */
-export function mapNativeErrorCode(nativeCode: string): GoogleAuthErrorCode {
+export function mapNativeErrorCode(
+  nativeCode: string,
+  fallbackCode: GoogleAuthErrorCode = GoogleAuthErrorCodes.SIGN_IN_ERROR
+): GoogleAuthErrorCode {
   switch (nativeCode) {
     // User cancellation
     case 'android.credentials.GetCredentialException.TYPE_USER_CANCELED':
@@ -169,6 +238,8 @@ export function mapNativeErrorCode(nativeCode: string): GoogleAuthErrorCode {
       return GoogleAuthErrorCodes.SIGN_IN_ERROR;
     case 'SIGN_IN_REQUIRED':
       return GoogleAuthErrorCodes.SIGN_IN_REQUIRED;
+    case 'NONCE_MISMATCH':
+      return GoogleAuthErrorCodes.NONCE_MISMATCH;
 
     // Sign-out errors
     case 'SIGN_OUT_ERROR':
@@ -186,6 +257,10 @@ export function mapNativeErrorCode(nativeCode: string): GoogleAuthErrorCode {
     case 'REFRESH_FAILED':
       return GoogleAuthErrorCodes.REFRESH_FAILED;
 
+    // Authorization errors
+    case 'ADD_SCOPES_ERROR':
+      return GoogleAuthErrorCodes.ADD_SCOPES_ERROR;
+
     // Play Services errors
     case 'PLAY_SERVICES_NOT_AVAILABLE':
       return GoogleAuthErrorCodes.PLAY_SERVICES_NOT_AVAILABLE;
@@ -203,6 +278,55 @@ export function mapNativeErrorCode(nativeCode: string): GoogleAuthErrorCode {
       return GoogleAuthErrorCodes.NETWORK_ERROR;
 
     default:
-      return GoogleAuthErrorCodes.SIGN_IN_ERROR;
+      return KNOWN_ERROR_CODES.has(nativeCode)
+        ? (nativeCode as GoogleAuthErrorCode)
+        : fallbackCode;
   }
 }
+
+/**
+ * Converts any error thrown during a GoogleAuth operation into a GoogleAuthError
+ * Native errors keep their original code and message in userInfo as
+ * nativeCode and nativeMessage; every error is tagged with userInfo.operation
+ * @param error The caught error
+ * @param operation Name of the GoogleAuth method that failed
+ * @param fallbackCode Code used when the error carries no recognized code
+ */
+export function normalizeError(
+  error: unknown,
+  operation: string,
+  fallbackCode: GoogleAuthErrorCode = GoogleAuthErrorCodes.UNKNOWN_ERROR
+): GoogleAuthError {
+  if (isGoogleAuthError(error)) {
+    // Keep the innermost operation when errors pass through nested calls
+    if (error.userInfo?.operation) {
+      return error;
+    }
+    const tagged = new GoogleAuthError(error.code, error.message, {
+      ...error.userInfo,
+      operation,
+    });
+    tagged.stack = error.stack;
+    return tagged;
+  }
+
+  if (isErrorWithCode(error)) {
+    const { userInfo } = error as { userInfo?: Record<string, any> };
+    return new GoogleAuthError(
+      mapNativeErrorCode(error.code, fallbackCode),
+      error.message || `${operation} failed`,
+      {
+        ...userInfo,
+        operation,
+        nativeCode: error.code,
+        nativeMessage: error.message,
+      }
+    );
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new GoogleAuthError(fallbackCode, message || `${operation} failed`, {
+    operation,
+    nativeMessage: message,
+  });
+}
@@ -0,0 +1,132 @@
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import { GoogleAuth } from './GoogleAuth';
+
+/**
+ * Minimal fetch signature used by createGoogleFetch
+ */
+export type FetchLike = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+export interface GoogleFetchOptions {
+  /**
+   * Fetch implementation to use
+   * Default: the global fetch
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Hosts that receive the access token; each entry also matches its subdomains
+   * Requests to any other host, or over plain http, are rejected
+   * Default: ['googleapis.com', 'google.com']
+   */
+  allowedHosts?: string[];
+}
+
+const DEFAULT_ALLOWED_HOSTS = ['googleapis.com', 'google.com'];
+
+// Host of an https URL without credentials, or null. Parsed by hand because
+// React Native's URL polyfill does not implement hostname. Only hostname
+// characters are accepted, since fetch reads a backslash as a path separator.
+const httpsHost = (url: string): string | null => {
+  const match = /^https:\/\/([a-z0-9.-]+)(?::\d+)?(?:[/?#]|$)/i.exec(url);
+  return match ? match[1]!.toLowerCase() : null;
+};
+
+const isAllowedHost = (url: string, allowedHosts: string[]): boolean => {
+  const host = httpsHost(url);
+  return (
+    host !== null &&
+    allowedHosts.some((allowed) => {
+      const domain = allowed.toLowerCase();
+      return host === domain || host.endsWith(`.${domain}`);
+    })
+  );
+};
+
+const requireAccessToken = (accessToken: string | null): string => {
+  if (!accessToken) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.INVALID_TOKEN,
+      'No access token available. Android Credential Manager does not provide access tokens; request one from your backend using the ID token.'
+    );
+  }
+  return accessToken;
+};
+
+/**
+ * Creates a fetch function that authenticates requests to Google APIs.
+ * Attaches the current access token as a Bearer header and, on a 401,
+ * refreshes tokens and retries the request once. URLs outside allowedHosts
+ * are rejected with INVALID_TOKEN before any token is read.
+ */
+export function createGoogleFetch(options: GoogleFetchOptions = {}) {
+  const fetchImpl: FetchLike =
+    options.fetch ?? ((input, init) => fetch(input, init));
+  const allowedHosts = options.allowedHosts ?? DEFAULT_ALLOWED_HOSTS;
+
+  const send = async (
+    url: string,
+    init: RequestInit | undefined,
+    accessToken: string
+  ): Promise<Response> => {
+    const headers = new Headers(init?.headers);
+    headers.set('Authorization', `Bearer ${accessToken}`);
+
+    try {
+      return await fetchImpl(url, { ...init, headers });
+    } catch (error) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.NETWORK_ERROR,
+        error instanceof Error ? error.message : 'Network request failed',
+        { url }
+      );
+    }
+  };
+
+  return async (url: string, init?: RequestInit): Promise<Response> => {
+    // Never hand the access token to a third party
+    if (!isAllowedHost(url, allowedHosts)) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.INVALID_TOKEN,
+        'Refusing to send the access token to a host outside allowedHosts; only https URLs on Google API hosts are allowed by default',
+        { url }
+      );
+    }
+
+    const tokens = await GoogleAuth.getTokens();
+    const response = await send(
+      url,
+      init,
+      requireAccessToken(tokens.accessToken)
+    );
+
+    if (response.status !== 401) {
+      return response;
+    }
+
+    // Note: streamed request bodies cannot be replayed; use strings or blobs
+    const refreshed = await GoogleAuth.refreshTokens();
+    const retried = await send(
+      url,
+      init,
+      requireAccessToken(refreshed.accessToken)
+    );
+
+    if (retried.status === 401) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.TOKEN_EXPIRED,
+        'Access token was rejected after refreshing',
+        { url, status: retried.status }
+      );
+    }
+
+    return retried;
+  };
+}
+
+/**
+ * Authenticated fetch for Google APIs using the global fetch
+ */
+export const googleFetch = createGoogleFetch();
@@ -0,0 +1,120 @@
+import { base64UrlToBytes, utf8Decode } from './base64';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+
+/**
+ * Claims carried by a Google ID token
+ * See https://developers.google.com/identity/openid-connect/openid-connect#an-id-tokens-payload
+ */
+export interface IdTokenClaims {
+  /** Issuer: accounts.google.com or https://accounts.google.com */
+  iss: string;
+  /** Audience: the OAuth client ID the token was issued for */
+  aud: string;
+  /** Subject: the stable Google account identifier */
+  sub: string;
+  /** Expiration time, in seconds since the Unix epoch */
+  exp: number;
+  /** Issued-at time, in seconds since the Unix epoch */
+  iat: number;
+  /** Authorized party: the client ID of the presenter */
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  /** Hosted domain of a Google Workspace account */
+  hd?: string;
+  /** Nonce passed to the sign-in request, if any */
+  nonce?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+  locale?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * JOSE header of an ID token
+ */
+export interface IdTokenHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [param: string]: unknown;
+}
+
+const invalidToken = (message: string) =>
+  createErrorResponse(GoogleAuthErrorCodes.INVALID_TOKEN, message);
+
+const decodeSegment = (segment: string, name: string): unknown => {
+  try {
+    return JSON.parse(utf8Decode(base64UrlToBytes(segment)));
+  } catch {
+    throw invalidToken(`ID token ${name} is not valid base64url-encoded JSON`);
+  }
+};
+
+const splitToken = (idToken: string): [string, string, string] => {
+  if (typeof idToken !== 'string') {
+    throw invalidToken('ID token must be a string');
+  }
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw invalidToken('ID token must have three dot-separated segments');
+  }
+  return parts as [string, string, string];
+};
+
+/**
+ * Decodes the header of an ID token without verifying it
+ * @param idToken The encoded JWT
+ * @returns The JOSE header
+ * @throws GoogleAuthError with INVALID_TOKEN if the token is malformed
+ */
+export function decodeIdTokenHeader(idToken: string): IdTokenHeader {
+  const header = decodeSegment(splitToken(idToken)[0], 'header');
+  if (typeof header !== 'object' || header === null) {
+    throw invalidToken('ID token header must be a JSON object');
+  }
+  return header as IdTokenHeader;
+}
+
+/**
+ * Decodes the claims of an ID token without verifying its signature
+ * Never trust these claims for authorization decisions on their own;
+ * use verifyIdToken or verify the token on your server.
+ * @param idToken The encoded JWT
+ * @returns The decoded claims
+ * @throws GoogleAuthError with INVALID_TOKEN if the token is malformed
+ */
+export function decodeIdToken(idToken: string): IdTokenClaims {
+  const claims = decodeSegment(splitToken(idToken)[1], 'payload');
+  if (typeof claims !== 'object' || claims === null) {
+    throw invalidToken('ID token payload must be a JSON object');
+  }
+
+  const { exp, iat } = claims as Record<string, unknown>;
+  if (typeof exp !== 'number' || typeof iat !== 'number') {
+    throw invalidToken('ID token is missing numeric exp or iat claims');
+  }
+
+  return claims as IdTokenClaims;
+}
+
+/**
+ * Returns the expiry of an ID token
+ * @param idToken The encoded JWT
+ * @returns Expiry as a Unix timestamp in milliseconds, matching GetTokensResponse.expiresAt
+ */
+export function getTokenExpiry(idToken: string): number {
+  return decodeIdToken(idToken).exp * 1000;
+}
+
+/**
+ * Checks whether an ID token has expired
+ * @param idToken The encoded JWT
+ * @param clockSkew Seconds of tolerance for clock differences between device and Google
+ * @returns True if the token expired more than clockSkew seconds ago
+ */
+export function isIdTokenExpired(idToken: string, clockSkew = 0): boolean {
+  return Date.now() >= getTokenExpiry(idToken) + clockSkew * 1000;
+}
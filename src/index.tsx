@@ -1,75 +1,8 @@
-import NativeGoogleAuth from './NativeGoogleAuth';
-import type {
-  ConfigureParams,
-  User,
-  SignInResponse,
-  NoSavedCredentialFound,
-  CancelledResponse,
-  OneTapResponse,
-  GetTokensResponse,
-  RefreshTokensResponse,
-  PlayServicesInfo,
-} from './NativeGoogleAuth';
-import { GoogleAuthScopes } from './NativeGoogleAuth';
-import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
-
-// Error handling wrapper
-const handleError = (error: any, operation: string) => {
-  console.error(`GoogleAuth ${operation} error:`, error);
-
-  // Map common error codes to our error enum
-  if (error.code) {
-    switch (error.code) {
-      case 'SIGN_IN_CANCELLED':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.SIGN_IN_CANCELLED,
-          error.message || 'Sign in was cancelled',
-          error.userInfo
-        );
-      case 'IN_PROGRESS':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.IN_PROGRESS,
-          error.message || 'Sign in already in progress',
-          error.userInfo
-        );
-      case 'PLAY_SERVICES_NOT_AVAILABLE':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.PLAY_SERVICES_NOT_AVAILABLE,
-          error.message || 'Play Services not available',
-          error.userInfo
-        );
-      case 'TOKEN_REFRESH_FAILED':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.TOKEN_REFRESH_FAILED,
-          error.message || 'Token refresh failed',
-          error.userInfo
-        );
-      case 'TOKEN_EXPIRED':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.TOKEN_EXPIRED,
-          error.message || 'Token has expired',
-          error.userInfo
-        );
+import { GoogleAuth } from './GoogleAuth';
 
-      case 'NETWORK_ERROR':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.NETWORK_ERROR,
-          error.message || 'Network error occurred',
-          error.userInfo
-        );
-      case 'INVALID_TOKEN':
-        throw createErrorResponse(
-          GoogleAuthErrorCodes.INVALID_TOKEN,
-          error.message || 'Invalid token',
-          error.userInfo
-        );
-      default:
-        throw error;
-    }
-  }
-
-  throw error;
-};
+// Export the API
+export { GoogleAuth };
+export type { GetFreshTokensOptions, AddScopesResult } from './GoogleAuth';
 
 // Export types
 export type {
@@ -82,7 +15,11 @@ export type {
   GetTokensResponse,
   RefreshTokensResponse,
   PlayServicesInfo,
-};
+  SignInOptions,
+  SignOutOptions,
+  AddScopesResponse,
+  RevokeAccessResponse,
+} from './NativeGoogleAuth';
 
 // Export error types and utilities
 export {
@@ -93,84 +30,97 @@ export {
   isErrorWithCode,
   createErrorResponse,
   mapNativeErrorCode,
+  normalizeError,
 } from './errors';
 export type { GoogleAuthErrorCode, GoogleAuthStatusCode } from './errors';
+export type {
+  AuthTokens,
+  AuthStateListener,
+  TokensListener,
+  AccountsListener,
+  Unsubscribe,
+} from './authState';
+export type { AutoRefreshOptions } from './autoRefresh';
 
-// Export GoogleAuthScopes enum
-export { GoogleAuthScopes };
-
-/**
- * Google Auth API
- */
-export const GoogleAuth = {
-  /**
-   * Configure Google Sign-In with the provided parameters
-   */
-  configure: (params: ConfigureParams): Promise<void> => {
-    return NativeGoogleAuth.configure(params);
-  },
-
-  /**
-   * Sign in with Google using One Tap or standard flow
-   */
-  signIn: (): Promise<OneTapResponse> => {
-    return NativeGoogleAuth.signIn();
-  },
+// Export token storage
+export { createMemoryTokenStore } from './tokenStore';
+export type { TokenStore, StoredSession } from './tokenStore';
 
-  /**
-   * Sign out the current user
-   */
-  signOut: (): Promise<void> => {
-    return NativeGoogleAuth.signOut();
-  },
+// Export logging
+export { redact } from './logger';
+export type { Logger, LoggerOptions, LogLevel } from './logger';
 
-  /**
-   * Get access and ID tokens for the current user
-   */
-  getTokens: (): Promise<GetTokensResponse> => {
-    return NativeGoogleAuth.getTokens();
-  },
+// Export telemetry types
+export type { AuthEvent, AuthOperation, GoogleAuthPlugin } from './telemetry';
 
-  /**
-   * Refresh access and ID tokens for the current user
-   */
-  refreshTokens: async (): Promise<RefreshTokensResponse> => {
-    try {
-      return await NativeGoogleAuth.refreshTokens();
-    } catch (error) {
-      return handleError(error, 'refreshTokens');
-    }
-  },
+// Export nonce helpers
+export { generateNonce, generateHashedNonce, hashNonce } from './nonce';
+export type { NonceOptions, HashedNonce } from './nonce';
 
-  /**
-   * Check if the current token is expired
-   */
-  isTokenExpired: async (): Promise<boolean> => {
-    try {
-      return await NativeGoogleAuth.isTokenExpired();
-    } catch (error) {
-      return handleError(error, 'isTokenExpired');
-    }
-  },
+// Export profile helpers
+export { getProfilePhotoUrl } from './profile';
 
-  /**
-   * Get the current authenticated user
-   */
-  getCurrentUser: async (): Promise<User | null> => {
-    try {
-      return await NativeGoogleAuth.getCurrentUser();
-    } catch (error) {
-      return handleError(error, 'getCurrentUser');
-    }
-  },
+// Export ID token helpers
+export {
+  decodeIdToken,
+  decodeIdTokenHeader,
+  getTokenExpiry,
+  isIdTokenExpired,
+} from './idToken';
+export type { IdTokenClaims, IdTokenHeader } from './idToken';
+
+// Export ID token verification
+export {
+  verifyIdToken,
+  createJwksProvider,
+  IdTokenVerificationReasons,
+} from './verifyIdToken';
+export type {
+  VerifyIdTokenOptions,
+  JsonWebKeySet,
+  RsaJsonWebKey,
+  JwksProvider,
+  JwksProviderOptions,
+  IdTokenVerificationReason,
+} from './verifyIdToken';
+
+// Export authenticated fetch helpers
+export { createGoogleFetch, googleFetch } from './googleFetch';
+export type { FetchLike, GoogleFetchOptions } from './googleFetch';
+
+// Export React integration
+export {
+  GoogleAuthProvider,
+  useGoogleAuth,
+  useGoogleUser,
+  useGoogleTokens,
+} from './GoogleAuthProvider';
+export type {
+  GoogleAuthStatus,
+  GoogleAuthContextValue,
+  GoogleAuthProviderProps,
+} from './GoogleAuthProvider';
 
-  /**
-   * Check Google Play Services availability (Android only)
-   */
-  checkPlayServices: (showErrorDialog?: boolean): Promise<PlayServicesInfo> => {
-    return NativeGoogleAuth.checkPlayServices(showErrorDialog);
-  },
-};
+// Export configuration validation
+export {
+  validateConfiguration,
+  validateSignInOptions,
+  ConfigErrorCode,
+  MIN_PROFILE_IMAGE_SIZE,
+  MAX_PROFILE_IMAGE_SIZE,
+} from './validation';
+export type { ConfigValidationIssue } from './validation';
+
+// Export GoogleAuthScopes enum and scope registry
+export {
+  GoogleAuthScopes,
+  getScopeInfo,
+  isSensitiveScope,
+  isRestrictedScope,
+  normalizeScopes,
+  describeScopes,
+} from './scopes';
+export type { ScopeInfo, ScopeDescription, ScopeSensitivity } from './scopes';
 
 // Default export
 export default GoogleAuth;
@@ -0,0 +1,21 @@
+/**
+ * Jest entry point: the full GoogleAuth API backed by MockGoogleAuth
+ *
+ * In a jest setup file:
+ *   jest.mock('react-native-google-auth', () =>
+ *     require('react-native-google-auth/jest')
+ *   );
+ */
+
+// Must load before './index' so NativeGoogleAuth resolves to the mock
+import { mockGoogleAuth } from './mockNativeModule';
+
+export * from './index';
+export { default } from './index';
+export { MockGoogleAuth, MOCK_USER } from './MockGoogleAuth';
+export type {
+  MockMethod,
+  MockSignInResult,
+  MockTokens,
+} from './MockGoogleAuth';
+export { mockGoogleAuth };
@@ -0,0 +1,172 @@
+import { maskClientId } from './validation';
+
+/**
+ * Severity of a log entry, or 'silent' to disable logging
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Destination for library log output
+ * Arguments are redacted before they reach the logger
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+export interface LoggerOptions {
+  /**
+   * Minimum level that is forwarded to the logger
+   * Default: 'warn'
+   */
+  level?: LogLevel;
+}
+
+type LogMethod = Exclude<LogLevel, 'silent'>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const REDACTED = '[REDACTED]';
+
+// Fields whose values are credentials and are never logged, whatever their format
+const SECRET_KEYS = new Set([
+  'idToken',
+  'accessToken',
+  'refreshToken',
+  'serverAuthCode',
+  'nonce',
+  'hashedNonce',
+]);
+
+const JWT_PATTERN = /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+// Google access tokens (ya29.), refresh tokens (1//) and auth codes (4/)
+const OAUTH_TOKEN_PATTERN = /\b(?:ya29\.|1\/\/|4\/)[\w./-]+/g;
+const CLIENT_ID_PATTERN = /\b[\w-]+\.apps\.googleusercontent\.com\b/g;
+const EMAIL_PATTERN =
+  /\b([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([\w-]+(?:\.[\w-]+)+)/g;
+
+const consoleLogger: Logger = {
+  debug: (message, ...args) => console.debug(message, ...args),
+  info: (message, ...args) => console.info(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+const isDev = typeof __DEV__ !== 'undefined' && __DEV__;
+
+// Logs to the console in development and stays silent in production
+let activeLogger: Logger | null = isDev ? consoleLogger : null;
+let activeLevel: LogLevel = 'warn';
+
+/**
+ * Redacts tokens, emails and client IDs from a string
+ * @param text The text to redact
+ * @returns Text safe to log
+ */
+export function redactString(text: string): string {
+  return text
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(OAUTH_TOKEN_PATTERN, REDACTED)
+    .replace(CLIENT_ID_PATTERN, (clientId) => maskClientId(clientId))
+    .replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+const redactValue = (value: unknown, seen: WeakSet<object>): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  const source: Record<string, unknown> =
+    value instanceof Error
+      ? {
+          name: value.name,
+          message: value.message,
+          ...(value as unknown as Record<string, unknown>),
+        }
+      : (value as Record<string, unknown>);
+
+  const result: Record<string, unknown> = {};
+  Object.keys(source).forEach((key) => {
+    const field = source[key];
+    result[key] =
+      SECRET_KEYS.has(key) && field != null
+        ? REDACTED
+        : redactValue(field, seen);
+  });
+  return result;
+};
+
+/**
+ * Returns a copy of a value with tokens, emails and client IDs redacted
+ * Errors are converted to plain objects so their code and userInfo are kept
+ * @param value Any value about to be logged
+ * @returns A redacted copy that is safe to log
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, new WeakSet());
+}
+
+/**
+ * Routes library logs to a custom logger
+ * Pass null to disable logging entirely.
+ * @param logger Destination for log output, or null
+ * @param options Minimum level to forward
+ */
+export function setLogger(
+  logger: Logger | null,
+  options: LoggerOptions = {}
+): void {
+  activeLogger = logger;
+  activeLevel = options.level ?? 'warn';
+}
+
+/**
+ * Changes the minimum level forwarded to the current logger
+ * @param level Minimum level, or 'silent'
+ */
+export function setLogLevel(level: LogLevel): void {
+  activeLevel = level;
+}
+
+const write = (level: LogMethod, message: string, args: unknown[]) => {
+  if (!activeLogger || LEVEL_ORDER[level] < LEVEL_ORDER[activeLevel]) {
+    return;
+  }
+  try {
+    activeLogger[level](
+      `GoogleAuth: ${redactString(message)}`,
+      ...args.map((arg) => redact(arg))
+    );
+  } catch {
+    // A failing logger must never break authentication
+  }
+};
+
+/**
+ * Internal logging entry point; every call is redacted and level-filtered
+ */
+export const log = {
+  debug: (message: string, ...args: unknown[]) => write('debug', message, args),
+  info: (message: string, ...args: unknown[]) => write('info', message, args),
+  warn: (message: string, ...args: unknown[]) => write('warn', message, args),
+  error: (message: string, ...args: unknown[]) => write('error', message, args),
+};
@@ -0,0 +1,10 @@
+import { NativeModules } from 'react-native';
+import { MockGoogleAuth } from './MockGoogleAuth';
+
+/**
+ * Mock native module behind the react-native-google-auth/jest entry
+ */
+export const mockGoogleAuth = new MockGoogleAuth();
+
+// TurboModuleRegistry falls back to NativeModules, which the React Native jest preset mocks
+NativeModules.GoogleAuth = mockGoogleAuth;
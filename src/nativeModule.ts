@@ -0,0 +1,38 @@
+import NativeModule from './NativeGoogleAuth';
+import type { Spec } from './NativeGoogleAuth';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+
+const NOT_FOUND_MESSAGE = [
+  "The GoogleAuth native module was not found, so react-native-google-auth isn't linked into this build.",
+  'Expo: the library does not run in Expo Go. Add the config plugin, then create a development build with `npx expo prebuild` and `npx expo run:ios` / `npx expo run:android`, or an EAS development client.',
+  'React Native CLI: run `pod install` in ios/, then rebuild the app with `npx react-native run-ios` / `run-android`. Reloading JavaScript is not enough after installing a native library.',
+].join('\n');
+
+/**
+ * Whether the native module is linked into the running app
+ */
+export function isNativeModuleAvailable(): boolean {
+  return NativeModule != null;
+}
+
+const nativeModuleNotFound = () =>
+  createErrorResponse(
+    GoogleAuthErrorCodes.NATIVE_MODULE_NOT_FOUND,
+    NOT_FOUND_MESSAGE
+  );
+
+/**
+ * The native module, resolved when a method is called rather than at import
+ * Importing the library never throws; calls reject with
+ * NATIVE_MODULE_NOT_FOUND when the module is not linked.
+ */
+export const NativeGoogleAuth = new Proxy({} as Spec, {
+  get(_target, method: keyof Spec) {
+    if (NativeModule) {
+      const value = NativeModule[method];
+      // Bound so class-based implementations such as MockGoogleAuth keep their instance
+      return typeof value === 'function' ? value.bind(NativeModule) : value;
+    }
+    return () => Promise.reject(nativeModuleNotFound());
+  },
+});
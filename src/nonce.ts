@@ -0,0 +1,104 @@
+import { bytesToBase64Url, utf8Encode } from './base64';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import { decodeIdToken } from './idToken';
+import { sha256 } from './sha256';
+
+export interface NonceOptions {
+  /**
+   * Number of random bytes in the nonce
+   * Default: 32
+   */
+  byteLength?: number;
+}
+
+export interface HashedNonce {
+  /** Raw nonce; keep it, e.g. to send to your backend */
+  nonce: string;
+  /** Hex-encoded SHA-256 of the raw nonce; pass this to signIn */
+  hashedNonce: string;
+}
+
+let pendingNonce: string | null = null;
+
+/**
+ * Generates a cryptographically random, base64url-encoded nonce
+ * Requires crypto.getRandomValues (e.g. via react-native-get-random-values)
+ * @param options Nonce options
+ * @returns The nonce
+ * @throws GoogleAuthError with NOT_IMPLEMENTED if no secure random source exists
+ */
+export function generateNonce({ byteLength = 32 }: NonceOptions = {}): string {
+  const cryptoApi = (
+    globalThis as {
+      crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array };
+    }
+  ).crypto;
+
+  if (typeof cryptoApi?.getRandomValues !== 'function') {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.NOT_IMPLEMENTED,
+      'crypto.getRandomValues is not available. Install and import react-native-get-random-values before generating nonces.'
+    );
+  }
+
+  const bytes = new Uint8Array(byteLength);
+  cryptoApi.getRandomValues(bytes);
+  return bytesToBase64Url(bytes);
+}
+
+/**
+ * Hashes a nonce with SHA-256
+ * @param nonce The raw nonce
+ * @returns Lowercase hex digest
+ */
+export function hashNonce(nonce: string): string {
+  return Array.from(sha256(utf8Encode(nonce)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generates a random nonce together with its SHA-256 hash
+ * @param options Nonce options
+ * @returns The raw nonce and its hex-encoded hash
+ */
+export function generateHashedNonce(options?: NonceOptions): HashedNonce {
+  const nonce = generateNonce(options);
+  return { nonce, hashedNonce: hashNonce(nonce) };
+}
+
+/**
+ * Records the nonce sent with the sign-in request in flight
+ */
+export function setPendingNonce(nonce: string | null): void {
+  pendingNonce = nonce;
+}
+
+/**
+ * Checks the nonce claim of an ID token against the pending nonce
+ * The pending nonce is consumed either way, so a token cannot be replayed.
+ * @param idToken ID token returned by sign-in
+ * @throws GoogleAuthError with NONCE_MISMATCH if the claim differs
+ */
+export function consumePendingNonce(idToken: string): void {
+  const expected = pendingNonce;
+  pendingNonce = null;
+
+  if (expected === null) {
+    return;
+  }
+
+  let actual: string | undefined;
+  try {
+    actual = decodeIdToken(idToken).nonce;
+  } catch {
+    actual = undefined;
+  }
+
+  if (actual !== expected) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.NONCE_MISMATCH,
+      'ID token nonce does not match the nonce sent with the sign-in request'
+    );
+  }
+}
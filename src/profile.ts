@@ -0,0 +1,105 @@
+import type { User } from './NativeGoogleAuth';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import { decodeIdToken } from './idToken';
+import type { IdTokenClaims } from './idToken';
+import { MAX_PROFILE_IMAGE_SIZE, MIN_PROFILE_IMAGE_SIZE } from './validation';
+
+const GOOGLE_PHOTO_HOST = /(^|\.)googleusercontent\.com$/;
+// Sizing options appended to the path, e.g. "=s96-c" or "=w100-h100"
+const OPTIONS_SUFFIX = /[=][swh]\d+[\w-]*$/;
+// Legacy sizing path segment, e.g. "/s96-c/photo.jpg"
+const SIZE_SEGMENT = /\/s\d+(-c)?\//;
+
+const readClaims = (idToken: string | null | undefined) => {
+  if (!idToken) {
+    return null;
+  }
+  try {
+    return decodeIdToken(idToken);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the email_verified claim, which some Google tokens encode as a string
+ * @param claims Decoded ID token claims
+ * @returns Whether the email is verified, or null when the claim is missing
+ */
+export function toEmailVerified(claims: IdTokenClaims): boolean | null {
+  const value: unknown = claims.email_verified;
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return typeof value === 'string' ? value === 'true' : null;
+}
+
+/**
+ * Fills profile fields the native SDK did not provide from ID token claims
+ * Claims are only used when the token belongs to the same account.
+ * @param user User returned by the native module
+ * @param idToken ID token of that user, if available
+ * @returns The user with emailVerified, hostedDomain and locale set (null when unknown)
+ */
+export function withProfileClaims(user: User, idToken?: string | null): User {
+  const decoded = readClaims(idToken);
+  const claims = decoded && decoded.sub === user.userId ? decoded : null;
+
+  return {
+    ...user,
+    emailVerified:
+      user.emailVerified ?? (claims ? toEmailVerified(claims) : null),
+    hostedDomain: user.hostedDomain ?? claims?.hd ?? null,
+    locale: user.locale ?? claims?.locale ?? null,
+  };
+}
+
+/**
+ * Returns the user's Google profile photo URL resized to a square of size pixels
+ * Non-Google URLs are returned unchanged.
+ * @param user The user, or any object with a photo URL
+ * @param size Width and height in pixels
+ * @returns The resized URL, or null when the user has no photo
+ * @throws GoogleAuthError with INVALID_PROFILE_IMAGE_SIZE for sizes out of range
+ */
+export function getProfilePhotoUrl(
+  user: Pick<User, 'photo'> | null,
+  size: number
+): string | null {
+  if (
+    !Number.isInteger(size) ||
+    size < MIN_PROFILE_IMAGE_SIZE ||
+    size > MAX_PROFILE_IMAGE_SIZE
+  ) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.INVALID_PROFILE_IMAGE_SIZE,
+      `size must be an integer between ${MIN_PROFILE_IMAGE_SIZE} and ${MAX_PROFILE_IMAGE_SIZE}`,
+      { size }
+    );
+  }
+
+  const photo = user?.photo;
+  if (!photo) {
+    return null;
+  }
+
+  const match = /^(https?:\/\/([^/?#]+)[^?#]*)(\?[^#]*)?(#.*)?$/.exec(photo);
+  if (!match || !GOOGLE_PHOTO_HOST.test(match[2]!)) {
+    return photo;
+  }
+
+  let path = match[1]!;
+  let query = match[3] ?? '';
+
+  if (/[?&]sz=\d+/.test(query)) {
+    query = query.replace(/([?&]sz=)\d+/, `$1${size}`);
+  } else if (SIZE_SEGMENT.test(path)) {
+    path = path.replace(SIZE_SEGMENT, `/s${size}-c/`);
+  } else if (OPTIONS_SUFFIX.test(path)) {
+    path = path.replace(OPTIONS_SUFFIX, `=s${size}-c`);
+  } else {
+    path = `${path}=s${size}-c`;
+  }
+
+  return `${path}${query}${match[4] ?? ''}`;
+}
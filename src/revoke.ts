@@ -0,0 +1,56 @@
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import type { FetchLike } from './googleFetch';
+
+/**
+ * Google's OAuth 2.0 token revocation endpoint
+ */
+export const REVOKE_ENDPOINT = 'https://oauth2.googleapis.com/revoke';
+
+/**
+ * Outcome of a successful revocation
+ * 'alreadyRevoked' means Google no longer knew the token, e.g. the user
+ * removed the app from their Google Account settings
+ */
+export type RevokeStatus = 'revoked' | 'alreadyRevoked';
+
+/**
+ * Revokes an access or refresh token, which removes the app's grant
+ * @param token Access or refresh token (ID tokens cannot be revoked)
+ * @param fetchImpl Fetch implementation, defaults to the global fetch
+ * @returns Whether the token was revoked now or had already been revoked
+ * @throws GoogleAuthError with NETWORK_ERROR or REVOKE_ERROR
+ */
+export async function revokeToken(
+  token: string,
+  fetchImpl: FetchLike = (input, init) => fetch(input, init)
+): Promise<RevokeStatus> {
+  let response: Response;
+  try {
+    response = await fetchImpl(REVOKE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `token=${encodeURIComponent(token)}`,
+    });
+  } catch (error) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.NETWORK_ERROR,
+      error instanceof Error ? error.message : 'Network request failed',
+      { url: REVOKE_ENDPOINT }
+    );
+  }
+
+  if (response.ok) {
+    return 'revoked';
+  }
+
+  const body = await response.json().catch(() => null);
+  if (response.status === 400 && body?.error === 'invalid_token') {
+    return 'alreadyRevoked';
+  }
+
+  throw createErrorResponse(
+    GoogleAuthErrorCodes.REVOKE_ERROR,
+    `Token revocation failed with status ${response.status}`,
+    { status: response.status, error: body?.error }
+  );
+}
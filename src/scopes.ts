@@ -0,0 +1,556 @@
+/**
+ * Predefined OAuth 2.0 scopes for Google APIs
+ * Use these constants for type safety and better developer experience
+ */
+export enum GoogleAuthScopes {
+  // OpenID Connect scopes
+  OPENID = 'openid',
+  EMAIL = 'email',
+  PROFILE = 'profile',
+
+  // Google API scopes
+  DRIVE = 'https://www.googleapis.com/auth/drive',
+  DRIVE_FILE = 'https://www.googleapis.com/auth/drive.file',
+  DRIVE_READONLY = 'https://www.googleapis.com/auth/drive.readonly',
+  DRIVE_APPDATA = 'https://www.googleapis.com/auth/drive.appdata',
+  DRIVE_METADATA_READONLY = 'https://www.googleapis.com/auth/drive.metadata.readonly',
+  GMAIL = 'https://mail.google.com/',
+  GMAIL_READONLY = 'https://www.googleapis.com/auth/gmail.readonly',
+  GMAIL_MODIFY = 'https://www.googleapis.com/auth/gmail.modify',
+  GMAIL_COMPOSE = 'https://www.googleapis.com/auth/gmail.compose',
+  GMAIL_SEND = 'https://www.googleapis.com/auth/gmail.send',
+  GMAIL_LABELS = 'https://www.googleapis.com/auth/gmail.labels',
+  GMAIL_METADATA = 'https://www.googleapis.com/auth/gmail.metadata',
+  CALENDAR = 'https://www.googleapis.com/auth/calendar',
+  CALENDAR_READONLY = 'https://www.googleapis.com/auth/calendar.readonly',
+  CALENDAR_EVENTS = 'https://www.googleapis.com/auth/calendar.events',
+  CALENDAR_EVENTS_READONLY = 'https://www.googleapis.com/auth/calendar.events.readonly',
+  CONTACTS = 'https://www.googleapis.com/auth/contacts',
+  CONTACTS_READONLY = 'https://www.googleapis.com/auth/contacts.readonly',
+  CONTACTS_OTHER_READONLY = 'https://www.googleapis.com/auth/contacts.other.readonly',
+  USER_BIRTHDAY_READ = 'https://www.googleapis.com/auth/user.birthday.read',
+  USER_PHONENUMBERS_READ = 'https://www.googleapis.com/auth/user.phonenumbers.read',
+  YOUTUBE = 'https://www.googleapis.com/auth/youtube',
+  YOUTUBE_READONLY = 'https://www.googleapis.com/auth/youtube.readonly',
+  YOUTUBE_UPLOAD = 'https://www.googleapis.com/auth/youtube.upload',
+  /** @deprecated Removed from the Photos Library API; use PHOTOS_APPENDONLY or PHOTOS_PICKER */
+  PHOTOS = 'https://www.googleapis.com/auth/photoslibrary',
+  /** @deprecated Removed from the Photos Library API; use PHOTOS_READONLY_APP_CREATED or PHOTOS_PICKER */
+  PHOTOS_READONLY = 'https://www.googleapis.com/auth/photoslibrary.readonly',
+  PHOTOS_APPENDONLY = 'https://www.googleapis.com/auth/photoslibrary.appendonly',
+  PHOTOS_READONLY_APP_CREATED = 'https://www.googleapis.com/auth/photoslibrary.readonly.appcreateddata',
+  PHOTOS_PICKER = 'https://www.googleapis.com/auth/photospicker.mediaitems.readonly',
+  SPREADSHEETS = 'https://www.googleapis.com/auth/spreadsheets',
+  SPREADSHEETS_READONLY = 'https://www.googleapis.com/auth/spreadsheets.readonly',
+  DOCUMENTS = 'https://www.googleapis.com/auth/documents',
+  DOCUMENTS_READONLY = 'https://www.googleapis.com/auth/documents.readonly',
+  PRESENTATIONS = 'https://www.googleapis.com/auth/presentations',
+  PRESENTATIONS_READONLY = 'https://www.googleapis.com/auth/presentations.readonly',
+  FORMS_BODY = 'https://www.googleapis.com/auth/forms.body',
+  FORMS_BODY_READONLY = 'https://www.googleapis.com/auth/forms.body.readonly',
+  TASKS = 'https://www.googleapis.com/auth/tasks',
+  TASKS_READONLY = 'https://www.googleapis.com/auth/tasks.readonly',
+  CLOUD_PLATFORM = 'https://www.googleapis.com/auth/cloud-platform',
+  CLOUD_PLATFORM_READONLY = 'https://www.googleapis.com/auth/cloud-platform.read-only',
+  USERINFO_EMAIL = 'https://www.googleapis.com/auth/userinfo.email',
+  USERINFO_PROFILE = 'https://www.googleapis.com/auth/userinfo.profile',
+  /** @deprecated Google+ was shut down; use PROFILE or OPENID */
+  PLUS_ME = 'https://www.googleapis.com/auth/plus.me',
+  ANALYTICS = 'https://www.googleapis.com/auth/analytics',
+  ANALYTICS_READONLY = 'https://www.googleapis.com/auth/analytics.readonly',
+  GOOGLE_ADS = 'https://www.googleapis.com/auth/adwords',
+  /** @deprecated Renamed to GOOGLE_ADS */
+  ADWORDS = 'https://www.googleapis.com/auth/adwords',
+  BLOGGER = 'https://www.googleapis.com/auth/blogger',
+  FITNESS_ACTIVITY_READ = 'https://www.googleapis.com/auth/fitness.activity.read',
+  FITNESS_BODY_READ = 'https://www.googleapis.com/auth/fitness.body.read',
+  FITNESS_LOCATION_READ = 'https://www.googleapis.com/auth/fitness.location.read',
+}
+
+/**
+ * Google's OAuth verification tier for a scope
+ * Sensitive and restricted scopes require app verification before public release.
+ */
+export type ScopeSensitivity = 'non-sensitive' | 'sensitive' | 'restricted';
+
+/**
+ * Registry metadata for an OAuth scope
+ */
+export interface ScopeInfo {
+  scope: string;
+  /** Google API the scope belongs to, e.g. 'Google Drive' */
+  api: string;
+  sensitivity: ScopeSensitivity;
+  /** Short description of the access granted, suitable for consent UI */
+  description: string;
+  /** Read-only counterpart of a read-write scope */
+  readonlyVariant?: string;
+  /** Broader scopes that already include this one */
+  supersededBy?: string[];
+  /** Set when Google no longer accepts the scope */
+  deprecated?: boolean;
+  /** Scopes to request instead of a deprecated one */
+  replacedBy?: string[];
+}
+
+/**
+ * A requested scope as shown to users
+ * Fields other than scope are null for scopes missing from the registry.
+ */
+export interface ScopeDescription {
+  scope: string;
+  api: string | null;
+  sensitivity: ScopeSensitivity | null;
+  description: string | null;
+}
+
+const S = GoogleAuthScopes;
+
+const SCOPES: ScopeInfo[] = [
+  {
+    scope: S.OPENID,
+    api: 'OpenID Connect',
+    sensitivity: 'non-sensitive',
+    description: 'Associate you with your personal info on Google',
+  },
+  {
+    scope: S.EMAIL,
+    api: 'OpenID Connect',
+    sensitivity: 'non-sensitive',
+    description: 'See your primary Google Account email address',
+  },
+  {
+    scope: S.PROFILE,
+    api: 'OpenID Connect',
+    sensitivity: 'non-sensitive',
+    description: 'See your personal info, including any info you made public',
+  },
+  {
+    scope: S.USERINFO_EMAIL,
+    api: 'OpenID Connect',
+    sensitivity: 'non-sensitive',
+    description: 'See your primary Google Account email address',
+  },
+  {
+    scope: S.USERINFO_PROFILE,
+    api: 'OpenID Connect',
+    sensitivity: 'non-sensitive',
+    description: 'See your personal info, including any info you made public',
+  },
+  {
+    scope: S.PLUS_ME,
+    api: 'Google+',
+    sensitivity: 'non-sensitive',
+    description: 'Know who you are on Google',
+    deprecated: true,
+    replacedBy: [S.OPENID, S.PROFILE],
+  },
+  {
+    scope: S.DRIVE,
+    api: 'Google Drive',
+    sensitivity: 'restricted',
+    description: 'See, edit, create and delete all of your Google Drive files',
+    readonlyVariant: S.DRIVE_READONLY,
+  },
+  {
+    scope: S.DRIVE_READONLY,
+    api: 'Google Drive',
+    sensitivity: 'restricted',
+    description: 'See and download all your Google Drive files',
+    supersededBy: [S.DRIVE],
+  },
+  {
+    scope: S.DRIVE_FILE,
+    api: 'Google Drive',
+    sensitivity: 'non-sensitive',
+    description:
+      'See, edit, create and delete only the Drive files you use with this app',
+    supersededBy: [S.DRIVE],
+  },
+  {
+    scope: S.DRIVE_APPDATA,
+    api: 'Google Drive',
+    sensitivity: 'non-sensitive',
+    description:
+      'See, create and delete its own configuration data in your Google Drive',
+  },
+  {
+    scope: S.DRIVE_METADATA_READONLY,
+    api: 'Google Drive',
+    sensitivity: 'restricted',
+    description: 'See information about your Google Drive files',
+    supersededBy: [S.DRIVE, S.DRIVE_READONLY],
+  },
+  {
+    scope: S.GMAIL,
+    api: 'Gmail',
+    sensitivity: 'restricted',
+    description:
+      'Read, compose, send and permanently delete all your email from Gmail',
+    readonlyVariant: S.GMAIL_READONLY,
+  },
+  {
+    scope: S.GMAIL_MODIFY,
+    api: 'Gmail',
+    sensitivity: 'restricted',
+    description: 'Read, compose and send emails from your Gmail account',
+    readonlyVariant: S.GMAIL_READONLY,
+    supersededBy: [S.GMAIL],
+  },
+  {
+    scope: S.GMAIL_READONLY,
+    api: 'Gmail',
+    sensitivity: 'restricted',
+    description: 'View your email messages and settings',
+    supersededBy: [S.GMAIL, S.GMAIL_MODIFY],
+  },
+  {
+    scope: S.GMAIL_COMPOSE,
+    api: 'Gmail',
+    sensitivity: 'restricted',
+    description: 'Manage drafts and send emails',
+    supersededBy: [S.GMAIL, S.GMAIL_MODIFY],
+  },
+  {
+    scope: S.GMAIL_SEND,
+    api: 'Gmail',
+    sensitivity: 'sensitive',
+    description: 'Send email on your behalf',
+    supersededBy: [S.GMAIL, S.GMAIL_MODIFY, S.GMAIL_COMPOSE],
+  },
+  {
+    scope: S.GMAIL_LABELS,
+    api: 'Gmail',
+    sensitivity: 'non-sensitive',
+    description: 'See and edit your email labels',
+    supersededBy: [S.GMAIL, S.GMAIL_MODIFY],
+  },
+  {
+    scope: S.GMAIL_METADATA,
+    api: 'Gmail',
+    sensitivity: 'restricted',
+    description: 'View your email message metadata such as labels and headers',
+    supersededBy: [S.GMAIL, S.GMAIL_MODIFY, S.GMAIL_READONLY],
+  },
+  {
+    scope: S.CALENDAR,
+    api: 'Google Calendar',
+    sensitivity: 'sensitive',
+    description: 'See, edit, share and delete all your calendars',
+    readonlyVariant: S.CALENDAR_READONLY,
+  },
+  {
+    scope: S.CALENDAR_READONLY,
+    api: 'Google Calendar',
+    sensitivity: 'sensitive',
+    description: 'See and download any calendar you can access',
+    supersededBy: [S.CALENDAR],
+  },
+  {
+    scope: S.CALENDAR_EVENTS,
+    api: 'Google Calendar',
+    sensitivity: 'sensitive',
+    description: 'View and edit events on all your calendars',
+    readonlyVariant: S.CALENDAR_EVENTS_READONLY,
+    supersededBy: [S.CALENDAR],
+  },
+  {
+    scope: S.CALENDAR_EVENTS_READONLY,
+    api: 'Google Calendar',
+    sensitivity: 'sensitive',
+    description: 'View events on all your calendars',
+    supersededBy: [S.CALENDAR, S.CALENDAR_READONLY, S.CALENDAR_EVENTS],
+  },
+  {
+    scope: S.CONTACTS,
+    api: 'People',
+    sensitivity: 'sensitive',
+    description: 'See, edit, download and permanently delete your contacts',
+    readonlyVariant: S.CONTACTS_READONLY,
+  },
+  {
+    scope: S.CONTACTS_READONLY,
+    api: 'People',
+    sensitivity: 'sensitive',
+    description: 'See and download your contacts',
+    supersededBy: [S.CONTACTS],
+  },
+  {
+    scope: S.CONTACTS_OTHER_READONLY,
+    api: 'People',
+    sensitivity: 'sensitive',
+    description:
+      'See and download contact info automatically saved in your "Other contacts"',
+  },
+  {
+    scope: S.USER_BIRTHDAY_READ,
+    api: 'People',
+    sensitivity: 'sensitive',
+    description: 'See your exact date of birth',
+  },
+  {
+    scope: S.USER_PHONENUMBERS_READ,
+    api: 'People',
+    sensitivity: 'sensitive',
+    description: 'See your personal phone numbers',
+  },
+  {
+    scope: S.YOUTUBE,
+    api: 'YouTube Data',
+    sensitivity: 'sensitive',
+    description: 'Manage your YouTube account',
+    readonlyVariant: S.YOUTUBE_READONLY,
+  },
+  {
+    scope: S.YOUTUBE_READONLY,
+    api: 'YouTube Data',
+    sensitivity: 'sensitive',
+    description: 'View your YouTube account',
+    supersededBy: [S.YOUTUBE],
+  },
+  {
+    scope: S.YOUTUBE_UPLOAD,
+    api: 'YouTube Data',
+    sensitivity: 'sensitive',
+    description: 'Manage your YouTube videos',
+    supersededBy: [S.YOUTUBE],
+  },
+  {
+    scope: S.PHOTOS,
+    api: 'Google Photos Library',
+    sensitivity: 'sensitive',
+    description: 'View and manage your Google Photos library',
+    deprecated: true,
+    replacedBy: [S.PHOTOS_APPENDONLY, S.PHOTOS_PICKER],
+  },
+  {
+    scope: S.PHOTOS_READONLY,
+    api: 'Google Photos Library',
+    sensitivity: 'sensitive',
+    description: 'View your Google Photos library',
+    deprecated: true,
+    replacedBy: [S.PHOTOS_READONLY_APP_CREATED, S.PHOTOS_PICKER],
+  },
+  {
+    scope: S.PHOTOS_APPENDONLY,
+    api: 'Google Photos Library',
+    sensitivity: 'sensitive',
+    description: 'Add to your Google Photos library',
+  },
+  {
+    scope: S.PHOTOS_READONLY_APP_CREATED,
+    api: 'Google Photos Library',
+    sensitivity: 'sensitive',
+    description: 'View photos, videos and albums created by this app',
+  },
+  {
+    scope: S.PHOTOS_PICKER,
+    api: 'Google Photos Picker',
+    sensitivity: 'sensitive',
+    description: 'View the photos and videos you select',
+  },
+  {
+    scope: S.SPREADSHEETS,
+    api: 'Google Sheets',
+    sensitivity: 'sensitive',
+    description:
+      'See, edit, create and delete all your Google Sheets spreadsheets',
+    readonlyVariant: S.SPREADSHEETS_READONLY,
+  },
+  {
+    scope: S.SPREADSHEETS_READONLY,
+    api: 'Google Sheets',
+    sensitivity: 'sensitive',
+    description: 'See all your Google Sheets spreadsheets',
+    supersededBy: [S.SPREADSHEETS],
+  },
+  {
+    scope: S.DOCUMENTS,
+    api: 'Google Docs',
+    sensitivity: 'sensitive',
+    description: 'See, edit, create and delete all your Google Docs documents',
+    readonlyVariant: S.DOCUMENTS_READONLY,
+  },
+  {
+    scope: S.DOCUMENTS_READONLY,
+    api: 'Google Docs',
+    sensitivity: 'sensitive',
+    description: 'See all your Google Docs documents',
+    supersededBy: [S.DOCUMENTS],
+  },
+  {
+    scope: S.PRESENTATIONS,
+    api: 'Google Slides',
+    sensitivity: 'sensitive',
+    description:
+      'See, edit, create and delete all your Google Slides presentations',
+    readonlyVariant: S.PRESENTATIONS_READONLY,
+  },
+  {
+    scope: S.PRESENTATIONS_READONLY,
+    api: 'Google Slides',
+    sensitivity: 'sensitive',
+    description: 'See all your Google Slides presentations',
+    supersededBy: [S.PRESENTATIONS],
+  },
+  {
+    scope: S.FORMS_BODY,
+    api: 'Google Forms',
+    sensitivity: 'sensitive',
+    description: 'See, edit, create and delete all your Google Forms forms',
+    readonlyVariant: S.FORMS_BODY_READONLY,
+  },
+  {
+    scope: S.FORMS_BODY_READONLY,
+    api: 'Google Forms',
+    sensitivity: 'sensitive',
+    description: 'See all your Google Forms forms',
+    supersededBy: [S.FORMS_BODY],
+  },
+  {
+    scope: S.TASKS,
+    api: 'Google Tasks',
+    sensitivity: 'sensitive',
+    description: 'Create, edit, organize and delete all your tasks',
+    readonlyVariant: S.TASKS_READONLY,
+  },
+  {
+    scope: S.TASKS_READONLY,
+    api: 'Google Tasks',
+    sensitivity: 'sensitive',
+    description: 'View your tasks',
+    supersededBy: [S.TASKS],
+  },
+  {
+    scope: S.CLOUD_PLATFORM,
+    api: 'Google Cloud',
+    sensitivity: 'sensitive',
+    description: 'See, edit, configure and delete your Google Cloud data',
+    readonlyVariant: S.CLOUD_PLATFORM_READONLY,
+  },
+  {
+    scope: S.CLOUD_PLATFORM_READONLY,
+    api: 'Google Cloud',
+    sensitivity: 'sensitive',
+    description: 'View your data across Google Cloud services',
+    supersededBy: [S.CLOUD_PLATFORM],
+  },
+  {
+    scope: S.ANALYTICS,
+    api: 'Google Analytics',
+    sensitivity: 'sensitive',
+    description: 'View and manage your Google Analytics data',
+    readonlyVariant: S.ANALYTICS_READONLY,
+  },
+  {
+    scope: S.ANALYTICS_READONLY,
+    api: 'Google Analytics',
+    sensitivity: 'sensitive',
+    description: 'See and download your Google Analytics data',
+    supersededBy: [S.ANALYTICS],
+  },
+  {
+    scope: S.GOOGLE_ADS,
+    api: 'Google Ads',
+    sensitivity: 'sensitive',
+    description:
+      'See, edit, create and delete your Google Ads accounts and data',
+  },
+  {
+    scope: S.BLOGGER,
+    api: 'Blogger',
+    sensitivity: 'sensitive',
+    description: 'Manage your Blogger account',
+  },
+  {
+    scope: S.FITNESS_ACTIVITY_READ,
+    api: 'Fitness',
+    sensitivity: 'sensitive',
+    description: 'See your physical activity data in Google Fit',
+  },
+  {
+    scope: S.FITNESS_BODY_READ,
+    api: 'Fitness',
+    sensitivity: 'sensitive',
+    description: 'See info about your body measurements in Google Fit',
+  },
+  {
+    scope: S.FITNESS_LOCATION_READ,
+    api: 'Fitness',
+    sensitivity: 'sensitive',
+    description: 'See your speed and distance data in Google Fit',
+  },
+];
+
+const REGISTRY = new Map(SCOPES.map((info) => [info.scope, info]));
+
+// Scope URLs Google issues outside googleapis.com, e.g. https://mail.google.com/
+const GOOGLE_SCOPE_URL =
+  /^https:\/\/([a-z0-9-]+\.)*(googleapis\.com|google\.com)\/[\w./-]*$/i;
+
+/**
+ * Returns registry metadata for a scope
+ * @param scope The scope URL or OpenID Connect scope name
+ * @returns The metadata, or undefined for scopes missing from the registry
+ */
+export function getScopeInfo(scope: string): ScopeInfo | undefined {
+  return REGISTRY.get(scope);
+}
+
+/**
+ * Whether a scope has a valid Google OAuth format
+ * Registered scopes, OpenID Connect names and https URLs on googleapis.com or
+ * google.com hosts are accepted. Deprecated scopes are well formed.
+ */
+export function isWellFormedScope(scope: string): boolean {
+  return REGISTRY.has(scope) || GOOGLE_SCOPE_URL.test(scope);
+}
+
+/**
+ * Whether Google requires app verification for a scope
+ * Scopes missing from the registry are treated as sensitive.
+ */
+export function isSensitiveScope(scope: string): boolean {
+  return getScopeInfo(scope)?.sensitivity !== 'non-sensitive';
+}
+
+/**
+ * Whether a scope is restricted, which requires a security assessment
+ */
+export function isRestrictedScope(scope: string): boolean {
+  return getScopeInfo(scope)?.sensitivity === 'restricted';
+}
+
+/**
+ * Removes duplicates and scopes already included by another requested scope
+ * e.g. drive.readonly is dropped when drive is requested. Order is preserved.
+ * @param scopes Requested scopes
+ * @returns The minimal equivalent list
+ */
+export function normalizeScopes(scopes: readonly string[]): string[] {
+  const unique = Array.from(new Set(scopes));
+  const requested = new Set(unique);
+  return unique.filter(
+    (scope) =>
+      !getScopeInfo(scope)?.supersededBy?.some((broader) =>
+        requested.has(broader)
+      )
+  );
+}
+
+/**
+ * Describes requested scopes for a consent or permissions screen
+ * Scopes are normalized first, so only the broadest access is listed.
+ * @param scopes Requested scopes
+ */
+export function describeScopes(scopes: readonly string[]): ScopeDescription[] {
+  return normalizeScopes(scopes).map((scope) => {
+    const info = getScopeInfo(scope);
+    return {
+      scope,
+      api: info?.api ?? null,
+      sensitivity: info?.sensitivity ?? null,
+      description: info?.description ?? null,
+    };
+  });
+}
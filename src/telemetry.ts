@@ -0,0 +1,124 @@
+import { Platform } from 'react-native';
+import type { OneTapResponse } from './NativeGoogleAuth';
+import { GoogleAuthErrorCodes, isGoogleAuthError } from './errors';
+import type { GoogleAuthErrorCode } from './errors';
+import { log } from './logger';
+
+/**
+ * GoogleAuth operations that emit telemetry events
+ */
+export type AuthOperation =
+  | 'configure'
+  | 'signIn'
+  | 'signInSilently'
+  | 'signOut'
+  | 'getTokens'
+  | 'refreshTokens'
+  | 'addScopes'
+  | 'switchAccount'
+  | 'revokeAccess';
+
+/**
+ * Structured lifecycle event passed to plugins
+ * Events never contain tokens, emails, names or other personal data.
+ */
+export interface AuthEvent {
+  operation: AuthOperation;
+  /** 'start' when the call begins, then exactly one of 'success' or 'failure' */
+  phase: 'start' | 'success' | 'failure';
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  /** Time since the matching 'start' event, in milliseconds */
+  durationMs?: number;
+  platform: typeof Platform.OS;
+  /** Result type of a successful signIn, e.g. 'cancelled' */
+  responseType?: OneTapResponse['type'];
+  /** Code of the GoogleAuthError for 'failure' events */
+  errorCode?: GoogleAuthErrorCode;
+  isRetryable?: boolean;
+}
+
+/**
+ * Receives auth lifecycle events, e.g. to forward them to an analytics backend
+ */
+export interface GoogleAuthPlugin {
+  /** Used in log messages when the plugin throws */
+  name?: string;
+  onEvent(event: AuthEvent): void;
+}
+
+const plugins = new Set<GoogleAuthPlugin>();
+
+const emit = (event: AuthEvent) => {
+  plugins.forEach((plugin) => {
+    try {
+      plugin.onEvent(event);
+    } catch (error) {
+      log.warn(`plugin ${plugin.name ?? 'anonymous'} failed`, error);
+    }
+  });
+};
+
+/**
+ * Registers a plugin that receives every auth lifecycle event
+ * @param plugin The plugin to add
+ * @returns A function that removes the plugin
+ */
+export function use(plugin: GoogleAuthPlugin): () => void {
+  plugins.add(plugin);
+  return () => {
+    plugins.delete(plugin);
+  };
+}
+
+/**
+ * Runs an operation and reports its start, outcome and duration to plugins
+ * @param operation Operation name reported in events
+ * @param run The operation
+ * @param describe Adds non-PII details about a successful result
+ */
+export async function instrument<T>(
+  operation: AuthOperation,
+  run: () => Promise<T>,
+  describe?: (result: T) => Partial<AuthEvent>
+): Promise<T> {
+  if (plugins.size === 0) {
+    return run();
+  }
+
+  const startedAt = Date.now();
+  emit({
+    operation,
+    phase: 'start',
+    timestamp: startedAt,
+    platform: Platform.OS,
+  });
+
+  try {
+    const result = await run();
+    const finishedAt = Date.now();
+    emit({
+      ...describe?.(result),
+      operation,
+      phase: 'success',
+      timestamp: finishedAt,
+      durationMs: finishedAt - startedAt,
+      platform: Platform.OS,
+    });
+    return result;
+  } catch (error) {
+    const finishedAt = Date.now();
+    emit({
+      operation,
+      phase: 'failure',
+      timestamp: finishedAt,
+      durationMs: finishedAt - startedAt,
+      platform: Platform.OS,
+      errorCode: isGoogleAuthError(error)
+        ? error.code
+        : GoogleAuthErrorCodes.UNKNOWN_ERROR,
+      isRetryable: isGoogleAuthError(error) ? error.isRetryable : false,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,125 @@
+import type { User } from './NativeGoogleAuth';
+import {
+  getAuthTokens,
+  getAuthUser,
+  onAuthStateChanged,
+  onTokensChanged,
+  setAuthTokens,
+  setAuthUser,
+  upsertAuthAccount,
+} from './authState';
+import type { AuthTokens } from './authState';
+import { log } from './logger';
+
+/**
+ * Session saved by a TokenStore
+ */
+export interface StoredSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+/**
+ * Persists the last known session between app launches
+ * Wrap the keychain, MMKV or any other storage. Sessions contain tokens, so
+ * the storage should be encrypted.
+ */
+export interface TokenStore {
+  get(): Promise<StoredSession | null>;
+  set(session: StoredSession): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Creates a store that keeps the session in memory only
+ * Used until another store is set.
+ */
+export function createMemoryTokenStore(): TokenStore {
+  let session: StoredSession | null = null;
+  return {
+    get: async () => session,
+    set: async (next) => {
+      session = next;
+    },
+    clear: async () => {
+      session = null;
+    },
+  };
+}
+
+let activeStore: TokenStore = createMemoryTokenStore();
+let hydrating = false;
+// Writes run one at a time so a slow set never lands after a later clear
+let writes: Promise<void> = Promise.resolve();
+
+const enqueue = (write: () => Promise<void>) => {
+  writes = writes
+    .then(write)
+    .catch((error) => log.warn('token store write failed', error));
+};
+
+// Saves the session once both user and tokens are known, and clears it on
+// sign-out. A user without tokens yet leaves the stored session alone.
+const persist = () => {
+  if (hydrating) {
+    return;
+  }
+  const store = activeStore;
+  const user = getAuthUser();
+  const tokens = getAuthTokens();
+  if (user === null) {
+    enqueue(() => store.clear());
+  } else if (tokens !== null) {
+    enqueue(() => store.set({ user, tokens }));
+  }
+};
+
+onAuthStateChanged(persist);
+onTokensChanged(persist);
+
+/**
+ * Replaces the token store and restores the session saved in it
+ * The restored session is published to onAuthStateChanged and
+ * onTokensChanged unless the session is already known, and can then be read
+ * synchronously with getCachedSession. Pass null to go back to memory only.
+ * @param store The store to use, or null for the in-memory default
+ */
+export async function setTokenStore(store: TokenStore | null): Promise<void> {
+  const next = store ?? createMemoryTokenStore();
+  activeStore = next;
+
+  let session: StoredSession | null = null;
+  try {
+    session = await next.get();
+  } catch (error) {
+    log.warn('token store read failed', error);
+  }
+
+  // A session reported by native code since then wins over the stored one
+  if (
+    activeStore !== next ||
+    session === null ||
+    getAuthUser() !== null ||
+    getAuthTokens() !== null
+  ) {
+    return;
+  }
+
+  hydrating = true;
+  try {
+    upsertAuthAccount(session.user);
+    setAuthUser(session.user);
+    setAuthTokens(session.tokens);
+  } finally {
+    hydrating = false;
+  }
+}
+
+/**
+ * Returns the last known session without calling native code, or null
+ */
+export function getCachedSession(): StoredSession | null {
+  const user = getAuthUser();
+  const tokens = getAuthTokens();
+  return user !== null && tokens !== null ? { user, tokens } : null;
+}
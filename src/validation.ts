@@ -1,3 +1,6 @@
+import type { ConfigureParams, SignInOptions } from './NativeGoogleAuth';
+import { getScopeInfo, isWellFormedScope } from './scopes';
+
 /**
  * Shared validation utilities for Google Auth configuration
  * Used by both iOS and Android implementations to ensure consistency
@@ -81,17 +84,14 @@ export function validateScopeFormat(scope: string): ValidationResult {
     };
   }
 
-  // Valid OAuth 2.0 scope formats
-  const isValidScope =
-    scope.startsWith('https://www.googleapis.com/auth/') ||
-    scope === 'openid' ||
-    scope === 'email' ||
-    scope === 'profile';
-
-  if (!isValidScope) {
+  if (!isWellFormedScope(scope)) {
+    // Bare API scope names such as 'drive' are a common mistake
+    const suggestion = `https://www.googleapis.com/auth/${scope}`;
     return {
       isValid: false,
-      errorMessage: `Invalid OAuth scope format: ${scope}. Must be a Google API scope URL or one of: openid, email, profile`,
+      errorMessage: `Invalid OAuth scope format: ${scope}. Must be an https scope URL on googleapis.com or google.com, or one of: openid, email, profile${
+        getScopeInfo(suggestion) ? `. Did you mean ${suggestion}?` : ''
+      }`,
       errorCode: 'INVALID_SCOPE_FORMAT',
     };
   }
@@ -164,4 +164,278 @@ export enum ConfigErrorCode {
   INVALID_SCOPES_TYPE = 'INVALID_SCOPES_TYPE',
   INVALID_SCOPE_TYPE = 'INVALID_SCOPE_TYPE',
   MISSING_REQUIRED_CONFIG = 'MISSING_REQUIRED_CONFIG',
+  INVALID_OPTION_TYPE = 'INVALID_OPTION_TYPE',
+  INVALID_PROFILE_IMAGE_SIZE = 'INVALID_PROFILE_IMAGE_SIZE',
+  INVALID_CREDENTIAL_MANAGER_MODE = 'INVALID_CREDENTIAL_MANAGER_MODE',
+  INVALID_EMAIL_PATTERN = 'INVALID_EMAIL_PATTERN',
+}
+
+/**
+ * A single problem found in a configuration object
+ */
+export interface ConfigValidationIssue {
+  /** Path of the offending field, e.g. 'scopes[2]' */
+  field: string;
+  code: ConfigErrorCode;
+  message: string;
+}
+
+/** Smallest profile image size, in pixels */
+export const MIN_PROFILE_IMAGE_SIZE = 1;
+/** Largest profile image size, in pixels */
+export const MAX_PROFILE_IMAGE_SIZE = 1024;
+
+const CREDENTIAL_MANAGER_MODES = ['silent', 'interactive', 'auto'];
+
+const CLIENT_ID_FIELDS = [
+  'webClientId',
+  'iosClientId',
+  'androidClientId',
+] as const;
+
+const BOOLEAN_FIELDS = [
+  'offlineAccess',
+  'forceCodeForRefreshToken',
+  'forceAccountPicker',
+] as const;
+
+const STRING_FIELDS = ['accountName', 'openIdRealm'] as const;
+
+const typeIssue = (field: string, expected: string, value: unknown) => ({
+  field,
+  code: ConfigErrorCode.INVALID_OPTION_TYPE,
+  message: `${field} must be a ${expected}, got ${typeof value}`,
+});
+
+/**
+ * Validates a full configuration object
+ * Every field is checked so callers can report all problems at once.
+ * Missing client IDs are not an error here, since native code can read
+ * them from Info.plist or google-services.json.
+ * @param params The configuration passed to configure
+ * @returns Every issue found, or an empty array if the configuration is valid
+ */
+export function validateConfiguration(
+  params: ConfigureParams
+): ConfigValidationIssue[] {
+  if (typeof params !== 'object' || params === null) {
+    return [
+      {
+        field: '',
+        code: ConfigErrorCode.MISSING_REQUIRED_CONFIG,
+        message: 'Configuration must be an object',
+      },
+    ];
+  }
+
+  const issues: ConfigValidationIssue[] = [];
+  const addResult = (field: string, result: ValidationResult) => {
+    if (!result.isValid) {
+      issues.push({
+        field,
+        code: result.errorCode as ConfigErrorCode,
+        message: result.errorMessage ?? `${field} is invalid`,
+      });
+    }
+  };
+
+  CLIENT_ID_FIELDS.forEach((field) => {
+    const value: unknown = params[field];
+    if (value === undefined) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      issues.push(typeIssue(field, 'string', value));
+    } else {
+      addResult(field, validateClientIdFormat(value));
+    }
+  });
+
+  if (params.hostedDomain !== undefined) {
+    if (typeof params.hostedDomain !== 'string') {
+      issues.push(typeIssue('hostedDomain', 'string', params.hostedDomain));
+    } else {
+      addResult('hostedDomain', validateDomainFormat(params.hostedDomain));
+    }
+  }
+
+  if (params.allowedDomains !== undefined) {
+    const domains: unknown = params.allowedDomains;
+    if (!Array.isArray(domains)) {
+      issues.push(typeIssue('allowedDomains', 'string array', domains));
+    } else {
+      domains.forEach((domain: unknown, index) => {
+        const field = `allowedDomains[${index}]`;
+        if (typeof domain !== 'string') {
+          issues.push(typeIssue(field, 'string', domain));
+        } else {
+          addResult(field, validateDomainFormat(domain));
+        }
+      });
+    }
+  }
+
+  if (params.allowedEmails !== undefined) {
+    const patterns: unknown = params.allowedEmails;
+    if (!Array.isArray(patterns)) {
+      issues.push(typeIssue('allowedEmails', 'string array', patterns));
+    } else {
+      patterns.forEach((pattern: unknown, index) => {
+        const field = `allowedEmails[${index}]`;
+        if (typeof pattern !== 'string') {
+          issues.push(typeIssue(field, 'string', pattern));
+        } else if (!/^[^@\s]+@[^@\s]+$/.test(pattern)) {
+          issues.push({
+            field,
+            code: ConfigErrorCode.INVALID_EMAIL_PATTERN,
+            message: `Invalid email pattern: ${pattern}. Expected an address such as '*@example.com'`,
+          });
+        }
+      });
+    }
+  }
+
+  if (params.scopes !== undefined) {
+    const scopes: unknown = params.scopes;
+    if (!Array.isArray(scopes)) {
+      issues.push({
+        field: 'scopes',
+        code: ConfigErrorCode.INVALID_SCOPES_TYPE,
+        message: 'Scopes must be an array',
+      });
+    } else {
+      scopes.forEach((scope: unknown, index) => {
+        const field = `scopes[${index}]`;
+        if (typeof scope !== 'string') {
+          issues.push({
+            field,
+            code: ConfigErrorCode.INVALID_SCOPE_TYPE,
+            message: `Scope must be a string, got ${typeof scope}`,
+          });
+        } else {
+          addResult(field, validateScopeFormat(scope));
+        }
+      });
+    }
+  }
+
+  BOOLEAN_FIELDS.forEach((field) => {
+    const value: unknown = params[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      issues.push(typeIssue(field, 'boolean', value));
+    }
+  });
+
+  STRING_FIELDS.forEach((field) => {
+    const value: unknown = params[field];
+    if (value !== undefined && typeof value !== 'string') {
+      issues.push(typeIssue(field, 'string', value));
+    }
+  });
+
+  if (params.profileImageSize !== undefined) {
+    const size: unknown = params.profileImageSize;
+    if (
+      typeof size !== 'number' ||
+      !Number.isInteger(size) ||
+      size < MIN_PROFILE_IMAGE_SIZE ||
+      size > MAX_PROFILE_IMAGE_SIZE
+    ) {
+      issues.push({
+        field: 'profileImageSize',
+        code: ConfigErrorCode.INVALID_PROFILE_IMAGE_SIZE,
+        message: `profileImageSize must be an integer between ${MIN_PROFILE_IMAGE_SIZE} and ${MAX_PROFILE_IMAGE_SIZE}`,
+      });
+    }
+  }
+
+  if (
+    params.credentialManagerMode !== undefined &&
+    !CREDENTIAL_MANAGER_MODES.includes(params.credentialManagerMode)
+  ) {
+    issues.push({
+      field: 'credentialManagerMode',
+      code: ConfigErrorCode.INVALID_CREDENTIAL_MANAGER_MODE,
+      message: `credentialManagerMode must be one of: ${CREDENTIAL_MANAGER_MODES.join(', ')}`,
+    });
+  }
+
+  if (params.offlineAccess === true && params.webClientId === undefined) {
+    issues.push({
+      field: 'webClientId',
+      code: ConfigErrorCode.MISSING_REQUIRED_CONFIG,
+      message: 'webClientId is required when offlineAccess is enabled',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validates the options passed to signIn
+ * @param options The per-call sign-in options
+ * @returns Every issue found, or an empty array if the options are valid
+ */
+export function validateSignInOptions(
+  options: SignInOptions
+): ConfigValidationIssue[] {
+  if (typeof options !== 'object' || options === null) {
+    return [typeIssue('options', 'object', options)];
+  }
+
+  const issues: ConfigValidationIssue[] = [];
+
+  (['nonce', 'loginHint'] as const).forEach((field) => {
+    const value: unknown = options[field];
+    if (value !== undefined && typeof value !== 'string') {
+      issues.push(typeIssue(field, 'string', value));
+    }
+  });
+
+  const forceAccountPicker: unknown = options.forceAccountPicker;
+  if (
+    forceAccountPicker !== undefined &&
+    typeof forceAccountPicker !== 'boolean'
+  ) {
+    issues.push(typeIssue('forceAccountPicker', 'boolean', forceAccountPicker));
+  }
+
+  if (
+    options.mode !== undefined &&
+    !CREDENTIAL_MANAGER_MODES.includes(options.mode)
+  ) {
+    issues.push({
+      field: 'mode',
+      code: ConfigErrorCode.INVALID_CREDENTIAL_MANAGER_MODE,
+      message: `mode must be one of: ${CREDENTIAL_MANAGER_MODES.join(', ')}`,
+    });
+  }
+
+  if (options.hostedDomain !== undefined) {
+    if (typeof options.hostedDomain !== 'string') {
+      issues.push(typeIssue('hostedDomain', 'string', options.hostedDomain));
+    } else {
+      const result = validateDomainFormat(options.hostedDomain);
+      if (!result.isValid) {
+        issues.push({
+          field: 'hostedDomain',
+          code: result.errorCode as ConfigErrorCode,
+          message: result.errorMessage ?? 'hostedDomain is invalid',
+        });
+      }
+    }
+  }
+
+  if (options.scopes !== undefined) {
+    const result = validateScopes(options.scopes);
+    if (!result.isValid) {
+      issues.push({
+        field: 'scopes',
+        code: result.errorCode as ConfigErrorCode,
+        message: result.errorMessage ?? 'scopes are invalid',
+      });
+    }
+  }
+
+  return issues;
 }
@@ -0,0 +1,405 @@
+import { base64UrlToBytes, utf8Encode } from './base64';
+import { getConfiguredClientIds } from './configuration';
+import { GoogleAuthErrorCodes, createErrorResponse } from './errors';
+import { decodeIdToken, decodeIdTokenHeader } from './idToken';
+import type { IdTokenClaims } from './idToken';
+import { sha256 } from './sha256';
+
+/**
+ * RSA public key in JWK format, as published by Google
+ */
+export interface RsaJsonWebKey {
+  kty: string;
+  n: string;
+  e: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+/**
+ * JSON Web Key Set document
+ */
+export interface JsonWebKeySet {
+  keys: RsaJsonWebKey[];
+}
+
+/**
+ * Supplies a key set, e.g. from a cache, a bundled fixture or the network
+ * @param options.forceRefresh Set when no key matched the token's kid, so a cached set may be stale
+ */
+export type JwksProvider = (options: {
+  forceRefresh: boolean;
+}) => Promise<JsonWebKeySet>;
+
+export interface VerifyIdTokenOptions {
+  /**
+   * Accepted aud values
+   * Default: webClientId, iosClientId and androidClientId from configure
+   */
+  audience?: string | string[];
+
+  /**
+   * Required hd claim (Google Workspace domain)
+   */
+  hostedDomain?: string;
+
+  /**
+   * Key set or key set provider
+   * Default: Google's public keys, fetched and cached in memory
+   */
+  jwks?: JsonWebKeySet | JwksProvider;
+
+  /**
+   * Seconds of tolerance for clock differences when checking exp and iat
+   * Default: 0
+   */
+  clockSkew?: number;
+}
+
+/**
+ * Reasons an ID token can fail verification, set as userInfo.reason
+ */
+export const IdTokenVerificationReasons = {
+  MALFORMED: 'MALFORMED',
+  UNSUPPORTED_ALGORITHM: 'UNSUPPORTED_ALGORITHM',
+  KEY_NOT_FOUND: 'KEY_NOT_FOUND',
+  INVALID_SIGNATURE: 'INVALID_SIGNATURE',
+  INVALID_ISSUER: 'INVALID_ISSUER',
+  INVALID_AUDIENCE: 'INVALID_AUDIENCE',
+  EXPIRED: 'EXPIRED',
+  ISSUED_IN_FUTURE: 'ISSUED_IN_FUTURE',
+  INVALID_HOSTED_DOMAIN: 'INVALID_HOSTED_DOMAIN',
+} as const;
+
+export type IdTokenVerificationReason =
+  (typeof IdTokenVerificationReasons)[keyof typeof IdTokenVerificationReasons];
+
+export interface JwksProviderOptions {
+  /**
+   * Key set URL
+   * Default: https://www.googleapis.com/oauth2/v3/certs
+   */
+  url?: string;
+
+  /**
+   * Fetch implementation to use
+   * Default: the global fetch
+   */
+  fetch?: (url: string) => Promise<Response>;
+
+  /**
+   * Cache lifetime when the response has no Cache-Control max-age
+   * Default: 3600000 (1 hour)
+   */
+  defaultCacheTtlMs?: number;
+}
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+// DER-encoded DigestInfo prefix for SHA-256 (RFC 8017, section 9.2)
+const SHA256_DIGEST_INFO = [
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04,
+  0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+];
+
+const verificationError = (
+  reason: IdTokenVerificationReason,
+  message: string,
+  userInfo?: Record<string, any>
+) =>
+  createErrorResponse(GoogleAuthErrorCodes.INVALID_TOKEN, message, {
+    reason,
+    ...userInfo,
+  });
+
+const bytesToBigInt = (bytes: Uint8Array): bigint => {
+  let value = BigInt(0);
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * BigInt(256) + BigInt(bytes[i]!);
+  }
+  return value;
+};
+
+const bigIntToBytes = (value: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining % BigInt(256));
+    remaining = remaining / BigInt(256);
+  }
+  return bytes;
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  let b = base % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e % BigInt(2) === BigInt(1)) {
+      result = (result * b) % modulus;
+    }
+    e = e / BigInt(2);
+    b = (b * b) % modulus;
+  }
+  return result;
+};
+
+/**
+ * Verifies an RSASSA-PKCS1-v1_5 SHA-256 signature
+ */
+const verifyRs256 = (
+  key: RsaJsonWebKey,
+  signingInput: Uint8Array,
+  signature: Uint8Array
+): boolean => {
+  const modulusBytes = base64UrlToBytes(key.n);
+  const modulus = bytesToBigInt(modulusBytes);
+  const exponent = bytesToBigInt(base64UrlToBytes(key.e));
+  // Ignore leading zero bytes when measuring the modulus length
+  let keyLength = modulusBytes.length;
+  for (let i = 0; i < modulusBytes.length && modulusBytes[i] === 0; i++) {
+    keyLength--;
+  }
+
+  if (signature.length !== keyLength) {
+    return false;
+  }
+
+  const signatureValue = bytesToBigInt(signature);
+  if (signatureValue >= modulus) {
+    return false;
+  }
+
+  const encoded = bigIntToBytes(
+    modPow(signatureValue, exponent, modulus),
+    keyLength
+  );
+  const digest = sha256(signingInput);
+  const suffix = [...SHA256_DIGEST_INFO, ...digest];
+  const paddingEnd = keyLength - suffix.length - 1;
+
+  // EM = 0x00 || 0x01 || PS (0xff...) || 0x00 || DigestInfo || digest
+  if (paddingEnd < 10 || encoded[0] !== 0x00 || encoded[1] !== 0x01) {
+    return false;
+  }
+  for (let i = 2; i < paddingEnd; i++) {
+    if (encoded[i] !== 0xff) {
+      return false;
+    }
+  }
+  if (encoded[paddingEnd] !== 0x00) {
+    return false;
+  }
+  return suffix.every((byte, i) => encoded[paddingEnd + 1 + i] === byte);
+};
+
+const parseMaxAge = (cacheControl: string | null): number | null => {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+/**
+ * Creates a provider that fetches and caches a remote key set
+ * Refetches once the cache expires or when a token uses an unknown kid
+ */
+export function createJwksProvider(
+  options: JwksProviderOptions = {}
+): JwksProvider {
+  const {
+    url = GOOGLE_JWKS_URL,
+    defaultCacheTtlMs = 3600000,
+    fetch: fetchImpl = (input: string) => fetch(input),
+  } = options;
+
+  let cached: JsonWebKeySet | null = null;
+  let cachedUntil = 0;
+  let pending: Promise<JsonWebKeySet> | null = null;
+
+  const load = async (): Promise<JsonWebKeySet> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(url);
+    } catch (error) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.NETWORK_ERROR,
+        `Failed to fetch JWKS: ${error instanceof Error ? error.message : String(error)}`,
+        { url }
+      );
+    }
+    if (!response.ok) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.NETWORK_ERROR,
+        `Failed to fetch JWKS: HTTP ${response.status}`,
+        { url, status: response.status }
+      );
+    }
+
+    let keySet: JsonWebKeySet;
+    try {
+      keySet = (await response.json()) as JsonWebKeySet;
+    } catch (error) {
+      throw createErrorResponse(
+        GoogleAuthErrorCodes.NETWORK_ERROR,
+        `Failed to parse JWKS: ${error instanceof Error ? error.message : String(error)}`,
+        { url }
+      );
+    }
+    cached = keySet;
+    cachedUntil =
+      Date.now() +
+      (parseMaxAge(response.headers?.get('cache-control') ?? null) ??
+        defaultCacheTtlMs);
+    return keySet;
+  };
+
+  return ({ forceRefresh }) => {
+    if (cached && !forceRefresh && Date.now() < cachedUntil) {
+      return Promise.resolve(cached);
+    }
+    if (!pending) {
+      pending = load().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  };
+}
+
+let defaultJwksProvider: JwksProvider | null = null;
+
+const resolveKeySet = (
+  jwks: VerifyIdTokenOptions['jwks'],
+  forceRefresh: boolean
+): Promise<JsonWebKeySet> => {
+  if (typeof jwks === 'function') {
+    return jwks({ forceRefresh });
+  }
+  if (jwks) {
+    return Promise.resolve(jwks);
+  }
+  defaultJwksProvider = defaultJwksProvider ?? createJwksProvider();
+  return defaultJwksProvider({ forceRefresh });
+};
+
+const findKeys = (keySet: JsonWebKeySet, kid?: string): RsaJsonWebKey[] =>
+  (keySet.keys ?? []).filter(
+    (key) =>
+      key.kty === 'RSA' &&
+      (key.alg === undefined || key.alg === 'RS256') &&
+      (kid === undefined || key.kid === kid)
+  );
+
+/**
+ * Verifies a Google ID token locally
+ * Checks the RS256 signature, iss, aud, exp, iat and optionally hd.
+ * This is defense in depth; your backend should still verify tokens it receives.
+ * @param idToken The encoded JWT
+ * @param options Verification options
+ * @returns The verified claims
+ * @throws GoogleAuthError with INVALID_TOKEN and userInfo.reason on failure
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: VerifyIdTokenOptions = {}
+): Promise<IdTokenClaims> {
+  const { hostedDomain, jwks, clockSkew = 0 } = options;
+
+  let header;
+  let claims: IdTokenClaims;
+  let signature: Uint8Array;
+  try {
+    header = decodeIdTokenHeader(idToken);
+    claims = decodeIdToken(idToken);
+    signature = base64UrlToBytes(idToken.split('.')[2]!);
+  } catch (error) {
+    throw verificationError(
+      IdTokenVerificationReasons.MALFORMED,
+      error instanceof Error ? error.message : 'Malformed ID token'
+    );
+  }
+
+  if (header.alg !== 'RS256') {
+    throw verificationError(
+      IdTokenVerificationReasons.UNSUPPORTED_ALGORITHM,
+      `Unsupported ID token algorithm: ${String(header.alg)}`,
+      { alg: header.alg }
+    );
+  }
+
+  let keys = findKeys(await resolveKeySet(jwks, false), header.kid);
+  if (keys.length === 0) {
+    // Google rotates keys; a cached set may predate this token
+    keys = findKeys(await resolveKeySet(jwks, true), header.kid);
+  }
+  if (keys.length === 0) {
+    throw verificationError(
+      IdTokenVerificationReasons.KEY_NOT_FOUND,
+      'No matching key found for ID token',
+      { kid: header.kid }
+    );
+  }
+
+  const signingInput = utf8Encode(
+    idToken.substring(0, idToken.lastIndexOf('.'))
+  );
+  if (!keys.some((key) => verifyRs256(key, signingInput, signature))) {
+    throw verificationError(
+      IdTokenVerificationReasons.INVALID_SIGNATURE,
+      'ID token signature is invalid'
+    );
+  }
+
+  if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+    throw verificationError(
+      IdTokenVerificationReasons.INVALID_ISSUER,
+      `Unexpected ID token issuer: ${claims.iss}`,
+      { iss: claims.iss }
+    );
+  }
+
+  const audiences =
+    options.audience === undefined
+      ? getConfiguredClientIds()
+      : ([] as string[]).concat(options.audience);
+  if (audiences.length === 0) {
+    throw createErrorResponse(
+      GoogleAuthErrorCodes.INVALID_CONFIG,
+      'No audience to verify against. Pass options.audience or configure a client ID first.'
+    );
+  }
+  if (!audiences.includes(claims.aud)) {
+    throw verificationError(
+      IdTokenVerificationReasons.INVALID_AUDIENCE,
+      'ID token was issued for a different client',
+      { aud: claims.aud }
+    );
+  }
+
+  const nowSeconds = Date.now() / 1000;
+  if (nowSeconds >= claims.exp + clockSkew) {
+    throw verificationError(
+      IdTokenVerificationReasons.EXPIRED,
+      'ID token has expired',
+      { exp: claims.exp }
+    );
+  }
+  if (claims.iat > nowSeconds + clockSkew) {
+    throw verificationError(
+      IdTokenVerificationReasons.ISSUED_IN_FUTURE,
+      'ID token was issued in the future',
+      { iat: claims.iat }
+    );
+  }
+
+  if (hostedDomain !== undefined && claims.hd !== hostedDomain) {
+    throw verificationError(
+      IdTokenVerificationReasons.INVALID_HOSTED_DOMAIN,
+      `ID token is not from the ${hostedDomain} domain`,
+      { hd: claims.hd }
+    );
+  }
+
+  return claims;
+}